@@ -16,7 +16,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { supabase } from "@/lib/supabase";
+import { syncService } from "@/lib/sync-service";
 import { useAuth } from "@/components/providers/auth-provider";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -162,81 +162,28 @@ export function ChatInput({ chatId }: ChatInputProps) {
     });
   };
 
-  const uploadFileToSupabase = async (file: File): Promise<string | null> => {
-    try {
-      const fileExt = file.name.split(".").pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      const filePath = `chat-attachments/${chatId}/${fileName}`;
-
-      const { data, error } = await supabase.storage
-        .from("attachments")
-        .upload(filePath, file);
-
-      if (error) {
-        console.error("Upload error:", error);
-        return null;
-      }
-
-      // Get public URL
-      const { data: publicUrlData } = supabase.storage
-        .from("attachments")
-        .getPublicUrl(filePath);
-
-      return publicUrlData.publicUrl;
-    } catch (error) {
-      console.error("Upload error:", error);
-      return null;
-    }
-  };
-
   const handleSendMessage = async () => {
-    if ((!message.trim() && attachments.length === 0) || !user) return;
+    // Enter can fire while a send is still in flight
+    if ((!message.trim() && attachments.length === 0) || !user || isSubmitting) return;
 
     setIsSubmitting(true);
     setIsUploading(true);
 
     try {
-      // Handle attachments first
+      // Attachments and text go through the sync service: they render
+      // optimistically and are retried from the outbox if the send fails
       if (attachments.length > 0) {
         for (const attachment of attachments) {
           const compressedFile = await compressImage(attachment.file);
-          const fileUrl = await uploadFileToSupabase(compressedFile);
-          
-          if (!fileUrl) {
-            toast({
-              title: "Upload failed",
-              description: `Failed to upload ${attachment.file.name}`,
-              variant: "destructive",
-            });
-            continue;
-          }
 
-          // Create attachment message
-          const attachmentContent = JSON.stringify({
-            fileName: attachment.file.name,
-            fileUrl,
-            fileSize: compressedFile.size,
-            fileType: compressedFile.type,
-            originalSize: attachment.file.size,
-          });
-
-          const { error: attachmentError } = await supabase
-            .from("messages")
-            .insert({
-              chat_id: chatId,
-              user_id: user.id,
-              content: attachmentContent,
-              type: "attachment",
-            });
-
-          if (attachmentError) {
-            console.error("Error sending attachment:", attachmentError);
-            toast({
-              title: "Error",
-              description: `Failed to send ${attachment.file.name}`,
-              variant: "destructive",
-            });
-          }
+          await syncService.addAttachmentOptimistically(
+            { chat_id: chatId, user_id: user.id },
+            {
+              file: compressedFile,
+              fileName: attachment.file.name,
+              originalSize: attachment.file.size,
+            }
+          );
         }
 
         // Clear attachments
@@ -250,31 +197,19 @@ export function ChatInput({ chatId }: ChatInputProps) {
 
       // Handle text message
       if (message.trim()) {
-        const { error } = await supabase.from("messages").insert({
+        const content = message.trim();
+        // Queued durably, so the draft can be cleared before the send lands
+        setMessage("");
+
+        await syncService.addMessageOptimistically({
           chat_id: chatId,
           user_id: user.id,
-          content: message.trim(),
+          content,
           type: "text",
+          is_read: false,
+          read_at: null,
         });
-
-        if (error) {
-          toast({
-            title: "Error",
-            description: "Failed to send message. Please try again.",
-            variant: "destructive",
-          });
-          console.error("Error sending message:", error);
-        } else {
-          setMessage("");
-        }
       }
-
-      // Update last_message_at in chat
-      await supabase
-        .from("chats")
-        .update({ last_message_at: new Date().toISOString() })
-        .eq("id", chatId);
-
     } catch (error) {
       console.error("Error in handleSendMessage:", error);
       toast({
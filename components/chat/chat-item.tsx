@@ -6,17 +6,24 @@ import { cn } from "@/lib/utils";
 import { Database } from "@/lib/database.types";
 import { format, isToday, isYesterday } from "date-fns";
 import { Badge } from "@/components/ui/badge";
-import { AiOutlinePhone, AiOutlineCheck, AiOutlineCheckCircle } from "react-icons/ai";
+import {
+  AiOutlinePhone,
+  AiOutlineCheck,
+  AiOutlineCheckCircle,
+  AiOutlineClockCircle,
+  AiOutlineExclamationCircle,
+} from "react-icons/ai";
 import Image from "next/image";
 import { useAuth } from "@/components/providers/auth-provider";
 import { useOnlineStatus } from "@/hooks/use-chat-data";
+import { deliveryStatusOf, type ChatSummary } from "@/lib/indexeddb";
 
 type ChatWithParticipants = Database["public"]["Tables"]["chats"]["Row"] & {
   chat_participants: Array<{
     user_id: string;
     profiles: Database["public"]["Tables"]["profiles"]["Row"];
   }>;
-  messages: Array<Database["public"]["Tables"]["messages"]["Row"]>;
+  summary?: ChatSummary;
 };
 
 interface ChatItemProps {
@@ -35,22 +42,12 @@ export function ChatItem({ chat }: ChatItemProps) {
     (participant) => participant.user_id !== user?.id
   );
   
-  // Get last message
-  const lastMessage = chat.messages.length > 0 
-    ? chat.messages.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0] 
-    : null;
-
-  // Count unread messages from other users (not from current user)
-  const unreadMessages = chat.messages.filter(
-    (message) => 
-      !message.is_read && 
-      message.user_id !== user?.id // Only count messages from other users
-  );
-  const unreadCount = unreadMessages.length;
-
-  // Get the most recent unread message for preview (if any)
-  const latestUnreadMessage = unreadMessages.length > 0 
-    ? unreadMessages.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]
+  // Last message and unread count come from the server-computed summary
+  const lastMessage = chat.summary?.last_message || null;
+  const unreadCount = chat.summary?.unread_count || 0;
+  const isOwnLastMessage = !!lastMessage && lastMessage.user_id === user?.id;
+  const lastMessageStatus = lastMessage && isOwnLastMessage
+    ? lastMessage.delivery_status || deliveryStatusOf(lastMessage)
     : null;
 
   // Format date for display
@@ -78,7 +75,7 @@ export function ChatItem({ chat }: ChatItemProps) {
         : "Unknown User")
     : (chat.name || otherParticipants.map(p => p.profiles?.full_name || "Unknown User").join(", "));
 
-  // Get chat preview - prioritize unread messages, fall back to last message
+  // Get chat preview from the last message
   const getMessagePreview = (message: any) => {
     if (!message) return "No messages yet";
     
@@ -94,9 +91,7 @@ export function ChatItem({ chat }: ChatItemProps) {
     return message.content;
   };
 
-  const chatPreview = latestUnreadMessage 
-    ? getMessagePreview(latestUnreadMessage)
-    : (lastMessage ? getMessagePreview(lastMessage) : "No messages yet");
+  const chatPreview = getMessagePreview(lastMessage);
 
   // Get date display
   const dateDisplay = lastMessage ? formatMessageDate(lastMessage.created_at) : "";
@@ -261,21 +256,30 @@ export function ChatItem({ chat }: ChatItemProps) {
         {/* Message Preview Row */}
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-1.5 flex-1 mr-2">
-            {lastMessage && lastMessage.user_id === user?.id && lastMessage.is_read && (
+            {lastMessageStatus === 'sending' && (
+              <AiOutlineClockCircle className="h-3.5 w-3.5 text-gray-400 shrink-0" />
+            )}
+            {lastMessageStatus === 'failed' && (
+              <AiOutlineExclamationCircle className="h-3.5 w-3.5 text-red-500 shrink-0" />
+            )}
+            {lastMessageStatus === 'read' && (
               <AiOutlineCheckCircle className="h-3.5 w-3.5 text-green-500 shrink-0" />
             )}
-            {lastMessage && lastMessage.user_id === user?.id && !lastMessage.is_read && (
-              <AiOutlineCheck className="h-3.5 w-3.5 text-gray-400 shrink-0" />
+            {(lastMessageStatus === 'sent' || lastMessageStatus === 'delivered') && (
+              <AiOutlineCheck className={cn(
+                "h-3.5 w-3.5 shrink-0",
+                lastMessageStatus === 'delivered' ? "text-green-500" : "text-gray-400"
+              )} />
             )}
             
             {/* Message preview with sender info for group chats */}
             <div className="flex-1 min-w-0">
-              {latestUnreadMessage && !isDM && (
+              {lastMessage && !isOwnLastMessage && !isDM && (
                 <span className={cn(
                   "text-[12px] font-medium mr-1",
                   unreadCount > 0 ? "text-blue-600" : "text-gray-500"
                 )}>
-                  {otherParticipants.find(p => p.user_id === latestUnreadMessage.user_id)?.profiles?.full_name || "Unknown"}:
+                  {otherParticipants.find(p => p.user_id === lastMessage.user_id)?.profiles?.full_name || "Unknown"}:
                 </span>
               )}
               <span className={cn(
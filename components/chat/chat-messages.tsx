@@ -1,7 +1,9 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { supabase } from "@/lib/supabase";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { realtimeManager } from "@/lib/realtime-manager";
+import { isReadBy } from "@/lib/sync-service";
 import { useAuth } from "@/components/providers/auth-provider";
 import { MessageBubble } from "@/components/chat/message-bubble";
 import { Database } from "@/lib/database.types";
@@ -20,6 +22,10 @@ interface ChatMessagesProps {
   chatId: string;
 }
 
+// Pages of history loaded looking for a message opened from search
+const MAX_JUMP_PAGES = 20;
+const HIGHLIGHT_DURATION_MS = 3000;
+
 // Date separator component
 function DateSeparator({ date }: { date: Date }) {
   const formatDate = (date: Date) => {
@@ -39,9 +45,10 @@ function DateSeparator({ date }: { date: Date }) {
 
 // Offline status indicator
 function OfflineIndicator() {
-  const { isOnline, pendingSync } = useOfflineSync();
+  const { isOnline, pendingSync, pendingOutbox, realtimeState } = useOfflineSync();
+  const reconnecting = isOnline && realtimeState === "disconnected";
 
-  if (isOnline && !pendingSync) return null;
+  if (isOnline && !pendingSync && pendingOutbox === 0 && !reconnecting) return null;
 
   return (
     <div className="flex items-center justify-center py-2 px-4 bg-yellow-50 border-b border-yellow-200">
@@ -49,13 +56,20 @@ function OfflineIndicator() {
         {!isOnline ? (
           <>
             <AiOutlineWifi className="h-4 w-4" />
-            <span>You're offline. Messages will sync when online.</span>
+            <span>
+              You're offline. {pendingOutbox > 0 ? `${pendingOutbox} unsent ${pendingOutbox === 1 ? "change" : "changes"} will` : "Messages will"} sync when online.
+            </span>
           </>
-        ) : pendingSync ? (
+        ) : pendingSync || pendingOutbox > 0 ? (
           <>
             <AiOutlineSync className="h-4 w-4 animate-spin" />
             <span>Syncing offline changes...</span>
           </>
+        ) : reconnecting ? (
+          <>
+            <AiOutlineSync className="h-4 w-4 animate-spin" />
+            <span>Reconnecting to live updates...</span>
+          </>
         ) : null}
       </div>
     </div>
@@ -64,10 +78,23 @@ function OfflineIndicator() {
 
 export function ChatMessages({ chatId }: ChatMessagesProps) {
   const { user } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  // Set when the chat is opened from a search result
+  const targetMessageId = useSearchParams().get("message");
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const jumpPagesRef = useRef(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll height captured before older messages are prepended
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
 
   // Use our new IndexedDB-powered hook
-  const [{ messages: cachedMessages, loading, error, syncing }, { refreshFreshMessages, markMessagesAsRead, updateMessage, deleteMessage }] = useChatData({
+  const [
+    { messages: cachedMessages, loading, error, syncing, hasMoreMessages, loadingOlderMessages },
+    { applyRealtimeChange, applyReadReceipt, reloadLatestMessages, loadOlderMessages, markMessagesAsRead, updateMessage, deleteMessage, retryMessage, discardMessage },
+  ] = useChatData({
     chatId,
     autoSync: true,
     syncInterval: 30000, // Sync every 30 seconds
@@ -98,52 +125,105 @@ export function ChatMessages({ chatId }: ChatMessagesProps) {
     }
   });
 
-  // Keep the original Supabase real-time subscription for immediate updates
+  // Apply real-time changes row by row instead of refetching the chat
   useEffect(() => {
     if (!chatId) return;
 
-    // Subscribe to new messages and message updates
-    const subscription = supabase
-      .channel(`messages:${chatId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-          filter: `chat_id=eq.${chatId}`,
-        },
-        async (payload) => {
-          console.log("New message received via real-time, fetching fresh messages");
-          // Fetch fresh messages from Supabase and update cache
-          await refreshFreshMessages();
-        }
-      )
-      .on(
-        "postgres_changes",
-        {
-          event: "UPDATE",
-          schema: "public",
-          table: "messages",
-          filter: `chat_id=eq.${chatId}`,
-        },
-        async (payload) => {
-          console.log("Message updated via real-time (read status/content change), fetching fresh messages");
-          // Fetch fresh messages from Supabase and update cache for read status updates
-          await refreshFreshMessages();
-        }
-      )
-      .subscribe();
+    // Subscribe to new, edited and deleted messages; the manager gap-fills
+    // this chat from the last received event if the channel drops
+    return realtimeManager.subscribe<Database["public"]["Tables"]["messages"]["Row"]>({
+      key: `messages:${chatId}`,
+      table: "messages",
+      filter: `chat_id=eq.${chatId}`,
+      chatId,
+      onChange: (payload) => {
+        console.log("Message change received via real-time:", payload.eventType);
+        applyRealtimeChange(payload);
+      },
+      onReconnect: reloadLatestMessages,
+    });
+  }, [chatId, applyRealtimeChange, reloadLatestMessages]);
 
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [chatId, refreshFreshMessages]);
+  // Read receipts from other participants
+  useEffect(() => {
+    if (!chatId) return;
+
+    return realtimeManager.subscribe<Database["public"]["Tables"]["message_reads"]["Row"]>({
+      key: `message_reads:${chatId}`,
+      table: "message_reads",
+      event: "INSERT",
+      filter: `chat_id=eq.${chatId}`,
+      onChange: (payload) => {
+        applyReadReceipt(payload);
+      },
+    });
+  }, [chatId, applyReadReceipt]);
+
+  // Keep the viewport anchored when a page of history is prepended
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const anchor = prependAnchorRef.current;
+    if (!container || !anchor || loadingOlderMessages) return;
+
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    prependAnchorRef.current = null;
+  }, [messages.length, loadingOlderMessages]);
+
+  // Scroll to bottom only when a new message is appended, not when history is prepended
+  const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+  useEffect(() => {
+    if (lastMessageId === lastMessageIdRef.current) return;
+
+    messagesEndRef.current?.scrollIntoView({
+      behavior: lastMessageIdRef.current ? "smooth" : "auto",
+    });
+    lastMessageIdRef.current = lastMessageId;
+  }, [lastMessageId]);
+
+  // Open at the message picked in search: page back until it is loaded,
+  // then scroll to it and highlight it for a moment
+  useEffect(() => {
+    jumpPagesRef.current = 0;
+  }, [chatId, targetMessageId]);
+
+  useEffect(() => {
+    if (!targetMessageId || loading || loadingOlderMessages) return;
+
+    if (cachedMessages.some((message) => message.id === targetMessageId)) {
+      document.getElementById(`message-${targetMessageId}`)?.scrollIntoView({ block: "center" });
+      setHighlightedMessageId(targetMessageId);
+    } else if (hasMoreMessages && jumpPagesRef.current < MAX_JUMP_PAGES) {
+      jumpPagesRef.current += 1;
+      loadOlderMessages();
+      return;
+    } else {
+      console.warn("Message from search is not in this chat's history:", targetMessageId);
+    }
+
+    // Later updates shouldn't jump back to it
+    router.replace(pathname, { scroll: false });
+  }, [targetMessageId, cachedMessages, loading, loadingOlderMessages, hasMoreMessages, loadOlderMessages, router, pathname]);
 
-  // Scroll to bottom when messages change
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages.length]); // Only trigger on message count change
+    if (!highlightedMessageId) return;
+
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+
+  // Load older messages once the user scrolls near the top
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container || !hasMoreMessages || loadingOlderMessages) return;
+
+    if (container.scrollTop < 200) {
+      prependAnchorRef.current = {
+        scrollHeight: container.scrollHeight,
+        scrollTop: container.scrollTop,
+      };
+      loadOlderMessages();
+    }
+  };
 
   // Mark messages as read (optimized to not trigger refresh)
   useEffect(() => {
@@ -152,7 +232,7 @@ export function ChatMessages({ chatId }: ChatMessagesProps) {
 
       // Only mark other people's messages as read
       const unreadMessages = messages.filter(
-        (message) => !message.is_read && message.user_id !== user.id
+        (message) => !isReadBy(message, user.id) && message.user_id !== user.id
       );
 
       if (unreadMessages.length > 0) {
@@ -198,6 +278,9 @@ export function ChatMessages({ chatId }: ChatMessagesProps) {
           isOwn={message.user_id === user?.id}
           onUpdateMessage={updateMessage}
           onDeleteMessage={deleteMessage}
+          onRetryMessage={retryMessage}
+          onDiscardMessage={discardMessage}
+          highlighted={message.id === highlightedMessageId}
         />
       );
     });
@@ -230,7 +313,11 @@ export function ChatMessages({ chatId }: ChatMessagesProps) {
       )}
 
       {/* Messages container */}
-      <div className="flex-1 overflow-y-auto px-4 py-6">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto px-4 py-6"
+      >
         {loading ? (
           <div className="flex h-full items-center justify-center">
             <Spinner />
@@ -242,6 +329,11 @@ export function ChatMessages({ chatId }: ChatMessagesProps) {
           </div>
         ) : (
           <>
+            {loadingOlderMessages && (
+              <div className="flex justify-center py-2">
+                <Spinner />
+              </div>
+            )}
             {renderMessagesWithDateSeparators()}
             <div ref={messagesEndRef} />
           </>
@@ -19,11 +19,15 @@ import {
 } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
+import { Spinner } from "@/components/ui/spinner";
 import { ChatItem } from "@/components/chat/chat-item";
 import { NewChatDialog } from "@/components/chat/new-chat-dialog";
+import { MessageSearchPanel } from "@/components/chat/message-search-panel";
 import { useAuth } from "@/components/providers/auth-provider";
-import { supabase } from "@/lib/supabase";
+import { realtimeManager } from "@/lib/realtime-manager";
+import { syncService } from "@/lib/sync-service";
 import { Database } from "@/lib/database.types";
+import { type ChatSummary } from "@/lib/indexeddb";
 import { useChatData, useOfflineSync } from "@/hooks/use-chat-data";
 
 type ChatWithParticipants = Database["public"]["Tables"]["chats"]["Row"] & {
@@ -31,7 +35,7 @@ type ChatWithParticipants = Database["public"]["Tables"]["chats"]["Row"] & {
     user_id: string;
     profiles: Database["public"]["Tables"]["profiles"]["Row"];
   }>;
-  messages: Array<Database["public"]["Tables"]["messages"]["Row"]>;
+  summary?: ChatSummary;
 };
 
 export function ChatSidebar() {
@@ -42,11 +46,15 @@ export function ChatSidebar() {
   const [showNewChatDialog, setShowNewChatDialog] = useState(false);
   const [showFilterDialog, setShowFilterDialog] = useState(false);
   const [isSearchExpanded, setIsSearchExpanded] = useState(false);
+  // The expanded search filters the chat list or searches message text
+  const [searchMode, setSearchMode] = useState<"chats" | "messages">("chats");
+  const [messageQuery, setMessageQuery] = useState("");
+  const isSearchingMessages = isSearchExpanded && searchMode === "messages";
 
   // Use our new IndexedDB-powered hook for chats
   const [
-    { chats: rawChats, loading, error, syncing },
-    { refreshChats, refreshFreshChats, forceSync },
+    { chats: rawChats, loading, error, syncing, hasMoreChats, loadingMoreChats },
+    { refreshChats, refreshFreshChats, loadMoreChats, forceSync },
   ] = useChatData({
     autoSync: true,
     syncInterval: 30000, // Sync every 30 seconds
@@ -67,85 +75,80 @@ export function ChatSidebar() {
         last_seen: null,
       },
     })),
-    messages: chat.messages || [],
   }));
 
   const { isOnline, pendingSync } = useOfflineSync();
 
-  // Keep the original Supabase real-time subscription for immediate updates
+  // Real-time subscriptions through the shared manager; a reconnect
+  // refreshes the list since changes may have been missed meanwhile
   useEffect(() => {
     if (!user?.id) return;
 
     // Subscribe to new chats
-    const chatSubscription = supabase
-      .channel("chats-channel")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "chats",
-        },
-        async () => {
-          console.log("Chat change detected, refreshing chats");
-          await refreshFreshChats();
-        }
-      )
-      .subscribe();
+    const unsubscribeChats = realtimeManager.subscribe({
+      key: "chats-channel",
+      table: "chats",
+      onChange: async () => {
+        console.log("Chat change detected, refreshing chats");
+        await refreshFreshChats();
+      },
+      onReconnect: refreshFreshChats,
+    });
 
     // Subscribe to chat participants changes (for group membership changes)
-    const participantSubscription = supabase
-      .channel("chat-participants-channel")
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "chat_participants",
-        },
-        async () => {
-          console.log("Chat participant change detected, refreshing chats");
-          await refreshFreshChats();
-        }
-      )
-      .subscribe();
-
-    // Subscribe to new messages to update chat list order
-    const messageSubscription = supabase
-      .channel("messages-channel")
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-        },
-        async () => {
-          console.log("New message detected, refreshing chats for order update");
-          await refreshFreshChats();
-        }
-      )
-      .on(
-        "postgres_changes",
-        {
-          event: "UPDATE",
-          schema: "public",
-          table: "messages",
-        },
-        async () => {
-          console.log("Message updated (read status change), refreshing chats for unread count update");
-          await refreshFreshChats();
-        }
-      )
-      .subscribe();
+    const unsubscribeParticipants = realtimeManager.subscribe({
+      key: "chat-participants-channel",
+      table: "chat_participants",
+      onChange: async () => {
+        console.log("Chat participant change detected, refreshing chats");
+        await refreshFreshChats();
+      },
+    });
+
+    // Subscribe to new and updated messages to update chat list order and unread counts
+    const unsubscribeMessages = realtimeManager.subscribe<Database["public"]["Tables"]["messages"]["Row"]>({
+      key: "messages-channel",
+      table: "messages",
+      onChange: (payload) => {
+        syncService.applyChatSummaryChange(payload, user.id);
+      },
+      onReconnect: () => {
+        syncService.refreshChatSummaries().catch((error) => {
+          console.warn("Failed to refresh chat summaries after reconnect:", error);
+        });
+      },
+    });
+
+    // Our own reads from other tabs and devices change unread counts too
+    const unsubscribeReads = realtimeManager.subscribe<Database["public"]["Tables"]["message_reads"]["Row"]>({
+      key: `message-reads-user-${user.id}`,
+      table: "message_reads",
+      event: "INSERT",
+      filter: `user_id=eq.${user.id}`,
+      onChange: (payload) => {
+        if (payload.eventType !== "INSERT") return;
+        syncService.scheduleRefreshChatSummary(payload.new.chat_id);
+      },
+    });
 
     return () => {
-      chatSubscription.unsubscribe();
-      participantSubscription.unsubscribe();
-      messageSubscription.unsubscribe();
+      unsubscribeChats();
+      unsubscribeParticipants();
+      unsubscribeMessages();
+      unsubscribeReads();
     };
   }, [user?.id, refreshFreshChats]);
 
+  // Page in older chats as the list nears its end
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const container = event.currentTarget;
+    if (!hasMoreChats || loadingMoreChats) return;
+
+    if (container.scrollHeight - container.scrollTop - container.clientHeight < 200) {
+      loadMoreChats();
+    }
+  };
+
   // Get unique tags from all chats
   const availableTags = [
     ...new Set(chats.flatMap((chat) => chat.tags || [])),
@@ -430,21 +433,38 @@ export function ChatSidebar() {
 
       {/* Search Input (expandable) */}
       {isSearchExpanded && (
-        <div className="px-3 py-2 border-b border-gray-100">
+        <div className="px-3 py-2 border-b border-gray-100 space-y-2">
+          <div className="flex items-center gap-1">
+            {(["chats", "messages"] as const).map((mode) => (
+              <Button
+                key={mode}
+                variant="ghost"
+                size="sm"
+                className={`px-2 py-1 text-xs font-medium h-6 capitalize ${
+                  searchMode === mode
+                    ? "text-green-600 bg-green-50 hover:bg-green-100"
+                    : "text-gray-600 hover:bg-gray-50"
+                }`}
+                onClick={() => setSearchMode(mode)}
+              >
+                {mode}
+              </Button>
+            ))}
+          </div>
           <div className="relative">
             <AiOutlineSearch className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
             <Input
-              placeholder="Search chats..."
+              placeholder={isSearchingMessages ? "Search messages, e.g. from:me budget" : "Search chats..."}
               className="pl-10 text-sm border-gray-200 focus:border-green-300 focus:ring-green-200"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
+              value={isSearchingMessages ? messageQuery : search}
+              onChange={(e) => (isSearchingMessages ? setMessageQuery : setSearch)(e.target.value)}
             />
-            {search && (
+            {(isSearchingMessages ? messageQuery : search) && (
               <Button
                 variant="ghost"
                 size="sm"
                 className="absolute right-2 top-1/2 -translate-y-1/2 h-6 w-6 p-0 text-gray-400 hover:text-gray-600"
-                onClick={() => setSearch("")}
+                onClick={() => (isSearchingMessages ? setMessageQuery : setSearch)("")}
               >
                 <AiOutlineClose className="h-3 w-3" />
               </Button>
@@ -453,9 +473,11 @@ export function ChatSidebar() {
         </div>
       )}
 
-      {/* Chats List */}
-      <div className="flex-1 overflow-y-auto">
-        {loading ? (
+      {/* Chats List, or message search results */}
+      <div className="flex-1 overflow-y-auto" onScroll={isSearchingMessages ? undefined : handleScroll}>
+        {isSearchingMessages ? (
+          <MessageSearchPanel query={messageQuery} />
+        ) : loading ? (
           <div className="flex items-center justify-center h-32">
             <div className="text-sm text-gray-500">Loading chats...</div>
           </div>
@@ -494,6 +516,11 @@ export function ChatSidebar() {
             {filteredChats.map((chat) => (
               <ChatItem key={chat.id} chat={chat} />
             ))}
+            {loadingMoreChats && (
+              <div className="flex justify-center py-2">
+                <Spinner />
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,11 +1,13 @@
 import { format } from "date-fns";
-import { AiOutlineCheck, AiOutlineDownload, AiOutlineFile, AiOutlineFileImage, AiOutlineAudio, AiOutlineEdit, AiOutlineClose, AiOutlineDelete } from "react-icons/ai";
+import { AiOutlineCheck, AiOutlineDownload, AiOutlineFile, AiOutlineFileImage, AiOutlineAudio, AiOutlineEdit, AiOutlineClose, AiOutlineDelete, AiOutlineClockCircle, AiOutlineExclamationCircle, AiOutlineReload } from "react-icons/ai";
 import { Avatar } from "@/components/ui/avatar";
 import { Database } from "@/lib/database.types";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { deliveryStatusOf, type Message as IndexedDBMessage, type MessageRead } from "@/lib/indexeddb";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
 
-type Message = Database["public"]["Tables"]["messages"]["Row"] & {
+type Message = IndexedDBMessage & {
   profiles: Database["public"]["Tables"]["profiles"]["Row"];
 };
 
@@ -14,6 +16,10 @@ interface MessageBubbleProps {
   isOwn: boolean;
   onUpdateMessage?: (messageId: string, newContent: string) => Promise<void>;
   onDeleteMessage?: (messageId: string) => Promise<void>;
+  onRetryMessage?: (messageId: string) => Promise<void>;
+  onDiscardMessage?: (messageId: string) => Promise<void>;
+  // Set while the chat is opened at this message from search
+  highlighted?: boolean;
 }
 
 interface AttachmentData {
@@ -23,8 +29,37 @@ interface AttachmentData {
   fileType: string;
 }
 
-export function MessageBubble({ message, isOwn, onUpdateMessage, onDeleteMessage }: MessageBubbleProps) {
+// Who has read a message and when, newest first
+function ReadByList({ reads }: { reads: MessageRead[] }) {
+  const sortedReads = [...reads].sort(
+    (a, b) => new Date(b.read_at).getTime() - new Date(a.read_at).getTime()
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold text-gray-500 uppercase">Read by</div>
+      {sortedReads.length === 0 ? (
+        <p className="text-sm text-gray-500">Not read yet</p>
+      ) : (
+        <ul className="space-y-1.5 max-h-48 overflow-y-auto">
+          {sortedReads.map((read) => (
+            <li key={read.user_id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate text-gray-800">{read.profiles?.full_name || "Unknown User"}</span>
+              <span className="shrink-0 text-xs text-gray-500">
+                {format(new Date(read.read_at), "dd-MM-yyyy HH:mm")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function MessageBubble({ message, isOwn, onUpdateMessage, onDeleteMessage, onRetryMessage, onDiscardMessage, highlighted = false }: MessageBubbleProps) {
   const formattedTime = format(new Date(message.created_at), "HH:mm");
+  // Messages loaded straight from the server have no stored status yet
+  const deliveryStatus = message.delivery_status || deliveryStatusOf(message);
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
   const [isUpdating, setIsUpdating] = useState(false);
@@ -95,6 +130,21 @@ export function MessageBubble({ message, isOwn, onUpdateMessage, onDeleteMessage
     const { fileName, fileUrl, fileSize, fileType } = attachmentData;
     const fileSizeMB = (fileSize / 1024 / 1024).toFixed(1);
 
+    // Queued attachment that has not been uploaded yet
+    if (!fileUrl) {
+      return (
+        <div className="flex items-center gap-3 p-2 bg-gray-50 rounded-lg max-w-xs">
+          <AiOutlineFile className="h-8 w-8 text-gray-400 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-700 truncate">{fileName}</p>
+            <p className="text-xs text-gray-500">
+              {message.sync_status === "failed" ? "Upload failed" : "Uploading..."} • {fileSizeMB} MB
+            </p>
+          </div>
+        </div>
+      );
+    }
+
     // Image attachment
     if (fileType.startsWith("image/")) {
       return (
@@ -203,6 +253,7 @@ export function MessageBubble({ message, isOwn, onUpdateMessage, onDeleteMessage
 
   return (
     <div
+      id={`message-${message.id}`}
       className={cn(
         "mb-3 flex",
         isOwn ? "justify-end" : "justify-start"
@@ -226,6 +277,7 @@ export function MessageBubble({ message, isOwn, onUpdateMessage, onDeleteMessage
             isOwn
               ? "bg-green-500 text-white rounded-br-sm"
               : "bg-white text-gray-800 border border-gray-200 rounded-bl-sm",
+            highlighted && "ring-2 ring-yellow-400 ring-offset-2 transition-shadow",
             "group"
           )}
         >
@@ -316,15 +368,56 @@ export function MessageBubble({ message, isOwn, onUpdateMessage, onDeleteMessage
             )}
           >
             <span>{formattedTime}</span>
-            {isOwn && (
-              <div className="flex">
-                <AiOutlineCheck className={cn("h-3 w-3", message.is_read ? "text-blue-200" : "text-green-200")} />
-                {message.is_read && (
-                  <AiOutlineCheck className="h-3 w-3 text-blue-200 -ml-1.5" />
-                )}
-              </div>
+            {isOwn && deliveryStatus === 'sending' && (
+              <AiOutlineClockCircle className="h-3 w-3" title="Sending" />
+            )}
+            {isOwn && deliveryStatus === 'failed' && (
+              <span className="flex items-center space-x-0.5 text-red-200" title="Not sent yet, will retry when online">
+                <AiOutlineExclamationCircle className="h-3 w-3" />
+                <span>Not sent</span>
+              </span>
+            )}
+            {isOwn && (deliveryStatus === 'sent' || deliveryStatus === 'delivered' || deliveryStatus === 'read') && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    className="flex"
+                    title={deliveryStatus === 'read' ? "Read" : deliveryStatus === 'delivered' ? "Delivered" : "Sent"}
+                  >
+                    <AiOutlineCheck className={cn("h-3 w-3", deliveryStatus === 'read' ? "text-blue-200" : "text-green-200")} />
+                    {deliveryStatus !== 'sent' && (
+                      <AiOutlineCheck className={cn("h-3 w-3 -ml-1.5", deliveryStatus === 'read' ? "text-blue-200" : "text-green-200")} />
+                    )}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-64 p-3">
+                  <ReadByList reads={message.message_reads || []} />
+                </PopoverContent>
+              </Popover>
             )}
           </div>
+          {isOwn && deliveryStatus === 'failed' && (onRetryMessage || onDiscardMessage) && (
+            <div className="mt-1 flex items-center justify-end space-x-2">
+              {onRetryMessage && (
+                <button
+                  onClick={() => onRetryMessage(message.id)}
+                  className="flex items-center space-x-1 px-2 py-0.5 rounded text-xs font-medium bg-green-600 hover:bg-green-700 text-white"
+                >
+                  <AiOutlineReload className="h-3 w-3" />
+                  <span>Retry</span>
+                </button>
+              )}
+              {onDiscardMessage && (
+                <button
+                  onClick={() => onDiscardMessage(message.id)}
+                  className="flex items-center space-x-1 px-2 py-0.5 rounded text-xs font-medium bg-green-400 hover:bg-green-500 text-white"
+                >
+                  <AiOutlineClose className="h-3 w-3" />
+                  <span>Discard</span>
+                </button>
+              )}
+            </div>
+          )}
           {/* Edit and Delete buttons - only show for own messages */}
           {isOwn && (onUpdateMessage || onDeleteMessage) && !isEditing && !showDeleteConfirm && (
             <div className="absolute top-1 right-1 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
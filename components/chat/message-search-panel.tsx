@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { useAuth } from "@/components/providers/auth-provider";
+import { useChatData } from "@/hooks/use-chat-data";
+import {
+  foldText,
+  queryTerms,
+  buildSnippet,
+  parseSearchQuery,
+  hasSearchFilters,
+  type MessageSearchFilters,
+  type Snippet,
+} from "@/lib/message-search";
+import { type Chat, type MessageSearchResult } from "@/lib/indexeddb";
+import { type MessageSearchCursor } from "@/lib/sync-service";
+
+interface MessageSearchPanelProps {
+  query: string;
+}
+
+interface ResultGroup {
+  chatId: string;
+  results: MessageSearchResult[];
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const OPERATOR_HINTS = [
+  { operator: "from:name", description: "sent by someone (from:me for yourself)" },
+  { operator: "in:name", description: "in a chat, quote names with spaces" },
+  { operator: "has:attachment", description: "files and images" },
+  { operator: "before:2024-05-01", description: "sent before a day" },
+  { operator: "after:2024-05-01", description: "sent after a day" },
+];
+
+// Same naming as the chat list: the other person for direct chats
+function chatDisplayName(chat: Chat, userId?: string): string {
+  const others = (chat.chat_participants || []).filter((participant) => participant.user_id !== userId);
+  if (chat.type === "direct") {
+    return others[0]?.profiles?.full_name || "Unknown User";
+  }
+  return chat.name || others.map((participant) => participant.profiles?.full_name || "Unknown User").join(", ");
+}
+
+function HighlightedText({ snippet }: { snippet: Snippet }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  snippet.matches.forEach(({ start, end }) => {
+    if (start > position) parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-gray-900 rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export function MessageSearchPanel({ query }: MessageSearchPanelProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [{ chats }, { searchMessages }] = useChatData({ autoSync: false });
+
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [nextCursor, setNextCursor] = useState<MessageSearchCursor | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0);
+
+  const chatsById = useMemo(() => new Map(chats.map((chat) => [chat.id, chat])), [chats]);
+
+  // Operators name people and chats; search by the IDs they stand for
+  const { text, filters, terms, problems } = useMemo(() => {
+    const parsed = parseSearchQuery(query);
+    const problems = parsed.invalid.map((operator) => `Couldn't understand ${operator}`);
+    const filters: MessageSearchFilters = {
+      hasAttachment: parsed.hasAttachment,
+      before: parsed.before ?? undefined,
+      after: parsed.after ?? undefined,
+    };
+
+    if (parsed.from.length > 0) {
+      const senderIds = new Set<string>();
+      parsed.from.forEach((name) => {
+        const folded = foldText(name);
+        if (folded === "me" && user?.id) {
+          senderIds.add(user.id);
+          return;
+        }
+        const before = senderIds.size;
+        chats.forEach((chat) => {
+          (chat.chat_participants || []).forEach(({ user_id, profiles }) => {
+            if (!profiles) return;
+            if (foldText(profiles.full_name).includes(folded) || profiles.email.toLowerCase().startsWith(folded)) {
+              senderIds.add(user_id);
+            }
+          });
+        });
+        if (senderIds.size === before) problems.push(`No one matches from:${name}`);
+      });
+      filters.senderIds = Array.from(senderIds);
+    }
+
+    if (parsed.in.length > 0) {
+      const chatIds = new Set<string>();
+      parsed.in.forEach((name) => {
+        const folded = foldText(name);
+        const before = chatIds.size;
+        chats
+          .filter((chat) => foldText(chatDisplayName(chat, user?.id)).includes(folded))
+          .forEach((chat) => chatIds.add(chat.id));
+        if (chatIds.size === before) problems.push(`No chat matches in:${name}`);
+      });
+      filters.chatIds = Array.from(chatIds);
+    }
+
+    return { text: parsed.text, filters, terms: queryTerms(parsed.text), problems };
+  }, [query, chats, user?.id]);
+
+  const searchable = problems.length === 0 && (terms.length > 0 || hasSearchFilters(filters));
+  // Re-run only when what is searched for changes, not on every chat update
+  const searchKey = searchable ? JSON.stringify({ text, filters }) : null;
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+    if (!searchKey) {
+      setResults([]);
+      setNextCursor(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timeoutId = setTimeout(async () => {
+      const { text, filters } = JSON.parse(searchKey);
+      const page = await searchMessages(text, filters);
+      if (searchId !== searchIdRef.current) return;
+
+      setResults(page.results);
+      setNextCursor(page.nextCursor);
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchKey, searchMessages]);
+
+  const loadMore = async () => {
+    if (!searchKey || !nextCursor || loadingMore) return;
+
+    const searchId = searchIdRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await searchMessages(text, filters, nextCursor);
+      if (searchId !== searchIdRef.current) return;
+
+      const knownIds = new Set(results.map((result) => result.message.id));
+      setResults([...results, ...page.results.filter((result) => !knownIds.has(result.message.id))]);
+      setNextCursor(page.nextCursor);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Chats in order of their newest hit, hits newest first within each
+  const groups = useMemo(() => {
+    const byChat = new Map<string, ResultGroup>();
+    results.forEach((result) => {
+      const chatId = result.message.chat_id;
+      if (!byChat.has(chatId)) byChat.set(chatId, { chatId, results: [] });
+      byChat.get(chatId)!.results.push(result);
+    });
+    return Array.from(byChat.values());
+  }, [results]);
+
+  // Attachments are stored as JSON; show and match their file name
+  const snippetFor = (result: MessageSearchResult): Snippet => {
+    if (result.message.type !== "attachment") return result.snippet;
+    try {
+      return buildSnippet(`📎 ${JSON.parse(result.message.content).fileName}`, terms);
+    } catch {
+      return { text: "📎 Attachment", matches: [] };
+    }
+  };
+
+  if (!query.trim()) {
+    return (
+      <div className="px-4 py-3 text-xs text-gray-500 space-y-2">
+        <p>Search the text of your messages. Narrow it down with:</p>
+        <ul className="space-y-1">
+          {OPERATOR_HINTS.map(({ operator, description }) => (
+            <li key={operator}>
+              <code className="text-green-700">{operator}</code> {description}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (problems.length > 0) {
+    return (
+      <div className="px-4 py-3 space-y-1">
+        {problems.map((problem) => (
+          <p key={problem} className="text-sm text-red-600">{problem}</p>
+        ))}
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="text-sm text-gray-500">No messages found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-2">
+      {groups.map(({ chatId, results: chatResults }) => {
+        const chat = chatsById.get(chatId);
+        return (
+          <div key={chatId} className="mb-2">
+            <div className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase truncate">
+              {chat ? chatDisplayName(chat, user?.id) : "Unknown chat"}
+            </div>
+            {chatResults.map((result) => (
+              <button
+                key={result.message.id}
+                type="button"
+                className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                onClick={() => router.push(`/chat/${chatId}?message=${result.message.id}`)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900 truncate">
+                    {result.message.user_id === user?.id
+                      ? "You"
+                      : result.message.profiles?.full_name || "Unknown User"}
+                  </span>
+                  <span className="shrink-0 text-xs text-gray-500">
+                    {format(new Date(result.message.created_at), "dd-MM-yyyy HH:mm")}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 line-clamp-2 break-words">
+                  <HighlightedText snippet={snippetFor(result)} />
+                </p>
+              </button>
+            ))}
+          </div>
+        );
+      })}
+
+      {nextCursor && (
+        <div className="flex justify-center py-2">
+          <Button variant="outline" size="sm" className="text-xs" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? "Loading..." : "More results"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
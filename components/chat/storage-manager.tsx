@@ -1,22 +1,411 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { AiOutlineDatabase, AiOutlineDelete, AiOutlineSync, AiOutlineWifi, AiOutlineReload, AiOutlineWarning } from "react-icons/ai";
-import { useStorageInfo, useOfflineSync } from "@/hooks/use-chat-data";
+import { AiOutlineDatabase, AiOutlineDelete, AiOutlineSync, AiOutlineWifi, AiOutlineReload, AiOutlineWarning, AiOutlineLogout, AiOutlineLock } from "react-icons/ai";
+import { useStorageInfo, useOfflineSync, useCacheBudget, useCacheEncryption, useChatData } from "@/hooks/use-chat-data";
 import { syncService } from "@/lib/sync-service";
-import { userDataDAO } from "@/lib/user-data-dao";
+import { userDataDAO, MAX_CACHED_ACCOUNTS, CACHED_ACCOUNT_MAX_AGE_DAYS } from "@/lib/user-data-dao";
+import { BUDGET_OPTIONS_MB, KEEP_MESSAGES_PER_CHAT, formatBytes } from "@/lib/cache-budget";
+import { type SchemaStatus } from "@/lib/indexeddb";
+import { type CachedAccount } from "@/lib/account-registry";
 import { useAuth } from "@/components/providers/auth-provider";
 import { useToast } from "@/hooks/use-toast";
 
+const schemaStatusLabel: Record<SchemaStatus, string> = {
+  ok: "Up to date",
+  upgrading: "Upgrading",
+  blocked: "Waiting for other tabs",
+  failed: "Upgrade failed",
+  recovered: "Rebuilt after failed upgrade",
+};
+
+// Chats listed in the size breakdown
+const BREAKDOWN_LIMIT = 8;
+
+// Real usage, the cache budget and what each chat takes up. Sizing reads the
+// whole cache, so this only mounts while the dialog is open.
+function StorageUsageCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { report, loading, setBudget, freeUpSpace, requestPersistence } = useCacheBudget();
+  const [{ chats }] = useChatData({ autoSync: false });
+  const [isTrimming, setIsTrimming] = useState(false);
+
+  const chatName = (chatId: string) => {
+    const chat = chats.find((candidate) => candidate.id === chatId);
+    if (!chat) return "Unknown chat";
+    if (chat.name) return chat.name;
+    const other = (chat.chat_participants || []).find((participant) => participant.user_id !== user?.id);
+    return other?.profiles?.full_name || "Unknown User";
+  };
+
+  const handleBudgetChange = async (value: string) => {
+    try {
+      await setBudget(Number(value) * 1024 * 1024);
+    } catch (error) {
+      console.error("Error updating cache budget:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update the cache budget",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTrim = async () => {
+    setIsTrimming(true);
+    try {
+      const result = await freeUpSpace();
+      toast({
+        title: result.removedMessages > 0 ? "Cache trimmed" : "Cache within budget",
+        description: result.removedMessages > 0
+          ? `Removed ${result.removedMessages} older messages from ${result.trimmedChats} chats`
+          : "Nothing needed to be removed",
+      });
+    } catch (error) {
+      console.error("Error trimming cache:", error);
+      toast({
+        title: "Error",
+        description: "Failed to trim the cache",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTrimming(false);
+    }
+  };
+
+  const handlePersist = async () => {
+    const persisted = await requestPersistence();
+    toast({
+      title: persisted ? "Storage is persistent" : "Request declined",
+      description: persisted
+        ? "Your browser won't clear cached chats when space runs low"
+        : "Your browser may still clear cached chats when space runs low",
+    });
+  };
+
+  if (loading || !report) {
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-medium">Storage Usage</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <div className="text-sm text-gray-500">Loading...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const quotaShare = report.usageBytes !== null && report.quotaBytes
+    ? (report.usageBytes / report.quotaBytes) * 100
+    : null;
+  const budgetShare = Math.min(100, (report.cacheBytes / report.budgetBytes) * 100);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Storage Usage</CardTitle>
+        <CardDescription className="text-xs">
+          Over budget, chats you haven&apos;t opened for longest keep only their newest {KEEP_MESSAGES_PER_CHAT} messages
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Browser storage:</span>
+            <span className="font-mono text-xs">
+              {formatBytes(report.usageBytes)} of {formatBytes(report.quotaBytes)}
+            </span>
+          </div>
+          {quotaShare !== null && <Progress value={quotaShare} className="h-1.5" />}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-gray-600">Cached messages:</span>
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-xs">{formatBytes(report.cacheBytes)} of</span>
+              <Select value={String(Math.round(report.budgetBytes / 1024 / 1024))} onValueChange={handleBudgetChange}>
+                <SelectTrigger className="h-7 w-[90px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BUDGET_OPTIONS_MB.map((megabytes) => (
+                    <SelectItem key={megabytes} value={String(megabytes)} className="text-xs">
+                      {megabytes} MB
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Progress value={budgetShare} className="h-1.5" />
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">Persistent storage:</span>
+          {report.persisted ? (
+            <Badge variant="secondary">Granted</Badge>
+          ) : report.persistenceSupported ? (
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handlePersist}>
+              Request
+            </Button>
+          ) : (
+            <Badge variant="outline">Not supported</Badge>
+          )}
+        </div>
+
+        {report.chats.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-semibold text-gray-500 uppercase">Largest chats</div>
+            {report.chats.slice(0, BREAKDOWN_LIMIT).map((chat) => (
+              <div key={chat.chat_id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-gray-800">{chatName(chat.chat_id)}</span>
+                <span className="shrink-0 text-xs text-gray-500">
+                  {chat.message_count} msgs · {formatBytes(chat.bytes)} · opened{" "}
+                  {chat.last_opened_at ? new Date(chat.last_opened_at).toLocaleDateString() : "never"}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button onClick={handleTrim} disabled={isTrimming} variant="outline" size="sm" className="w-full">
+          {isTrimming ? (
+            <>
+              <AiOutlineSync className="h-4 w-4 mr-2 animate-spin" />
+              Trimming...
+            </>
+          ) : (
+            <>
+              <AiOutlineDelete className="h-4 w-4 mr-2" />
+              Trim Cache to Budget
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Optional encryption of this account's cache. Turning it on or off and
+// rotating the key re-seal everything cached, which can take a moment.
+function CacheEncryptionCard() {
+  const { toast } = useToast();
+  const { info, loading, setEnabled, rotateKey } = useCacheEncryption();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleToggle = async (enabled: boolean) => {
+    setIsWorking(true);
+    try {
+      await setEnabled(enabled);
+      toast({
+        title: enabled ? "Cache encrypted" : "Encryption turned off",
+        description: enabled
+          ? "Cached messages and contacts are now encrypted on this device"
+          : "Cached data is stored unencrypted again",
+      });
+    } catch (error) {
+      console.error("Error changing cache encryption:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change cache encryption",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    setIsWorking(true);
+    try {
+      await rotateKey();
+      toast({
+        title: "Key rotated",
+        description: "Cached data was re-encrypted with a new key",
+      });
+    } catch (error) {
+      console.error("Error rotating the cache key:", error);
+      toast({
+        title: "Error",
+        description: "Failed to rotate the encryption key",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <AiOutlineLock className="h-4 w-4" />
+          Encryption
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Encrypted caches are wiped when you sign out, unsent messages included
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {loading || !info ? (
+          <div className="text-sm text-gray-500">Loading...</div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="cache-encryption" className="text-sm text-gray-600">
+                Encrypt cached data
+              </Label>
+              <Switch
+                id="cache-encryption"
+                checked={info.enabled}
+                onCheckedChange={handleToggle}
+                disabled={!info.supported || isWorking || info.rewriting}
+              />
+            </div>
+            {!info.supported && (
+              <div className="text-xs text-gray-500">Not available in this browser</div>
+            )}
+            {(isWorking || info.rewriting) && (
+              <div className="text-xs text-gray-500">Re-encrypting cached data...</div>
+            )}
+            {info.enabled && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">
+                  Key created {info.keyCreatedAt ? new Date(info.keyCreatedAt).toLocaleDateString() : "—"}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  onClick={handleRotate}
+                  disabled={isWorking || info.rewriting}
+                >
+                  Rotate key
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Accounts whose cache is kept on this device. Other accounts' caches can be
+// forgotten one by one; "forget this device" signs out and removes them all.
+function CachedAccountsCard() {
+  const { user, signOut } = useAuth();
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<CachedAccount[]>([]);
+  const [forgetting, setForgetting] = useState<string | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await userDataDAO.getCachedAccounts());
+    } catch (error) {
+      console.error("Error loading cached accounts:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleForget = async (account: CachedAccount) => {
+    setForgetting(account.user_id);
+    try {
+      await userDataDAO.forgetAccount(account.user_id);
+      await loadAccounts();
+      toast({
+        title: "Account forgotten",
+        description: `Cached data of ${account.email || "that account"} was removed from this device`,
+      });
+    } catch (error) {
+      console.error("Error forgetting account:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the account's cached data",
+        variant: "destructive",
+      });
+    } finally {
+      setForgetting(null);
+    }
+  };
+
+  const handleForgetDevice = async () => {
+    setForgetting("device");
+    await signOut({ forgetDevice: true });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium">Cached Accounts</CardTitle>
+        <CardDescription className="text-xs">
+          Each account keeps its own cache, so signing back in is instant
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {accounts.length === 0 ? (
+          <div className="text-sm text-gray-500">No accounts cached</div>
+        ) : (
+          <div className="space-y-1">
+            {accounts.map((account) => (
+              <div key={account.user_id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div className="truncate">{account.email || `ID: ${account.user_id.slice(-8)}`}</div>
+                  <div className="text-xs text-gray-500">
+                    Last used {new Date(account.last_used_at).toLocaleDateString()}
+                  </div>
+                </div>
+                {account.user_id === user?.id ? (
+                  <Badge variant="secondary">Signed in</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => handleForget(account)}
+                    disabled={forgetting !== null}
+                  >
+                    {forgetting === account.user_id ? "Removing..." : "Forget"}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full text-xs text-red-600"
+          onClick={handleForgetDevice}
+          disabled={forgetting !== null}
+        >
+          <AiOutlineLogout className="h-3 w-3 mr-2" />
+          {forgetting === "device" ? "Signing out..." : "Sign out and forget this device"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
 export function StorageManager() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const { storageInfo, loading, refresh } = useStorageInfo();
-  const { isOnline, pendingSync } = useOfflineSync();
+  const { storageInfo, schemaInfo, loading, refresh } = useStorageInfo();
+  const { isOnline, pendingSync, pendingOutbox } = useOfflineSync();
   const [isClearing, setIsClearing] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isEmergencyClearing, setIsEmergencyClearing] = useState(false);
@@ -26,7 +415,8 @@ export function StorageManager() {
 
     setIsClearing(true);
     try {
-      await syncService.clearCache();
+      // Unsent messages survive so they can still be delivered
+      await syncService.clearCache(user.id);
       await refresh();
       toast({
         title: "Cache cleared",
@@ -119,6 +509,8 @@ export function StorageManager() {
     return new Date(dateString).toLocaleString();
   };
 
+  const lastUpgrade = schemaInfo?.history[schemaInfo.history.length - 1];
+
   return (
     <Dialog>
       <DialogTrigger asChild>
@@ -127,7 +519,7 @@ export function StorageManager() {
           Storage
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AiOutlineDatabase className="h-5 w-5" />
@@ -186,6 +578,11 @@ export function StorageManager() {
                     Pending Sync
                   </Badge>
                 )}
+                {pendingOutbox > 0 && (
+                  <Badge variant="outline" className="flex items-center gap-1">
+                    {pendingOutbox} unsent {pendingOutbox === 1 ? "change" : "changes"}
+                  </Badge>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -220,7 +617,7 @@ export function StorageManager() {
                   </div>
                   <div>
                     <div className="text-2xl font-bold text-orange-600">
-                      {storageInfo.storage.estimatedSize}
+                      {formatBytes(storageInfo.storage.usageBytes)}
                     </div>
                     <div className="text-xs text-gray-500">Size</div>
                   </div>
@@ -231,6 +628,49 @@ export function StorageManager() {
             </CardContent>
           </Card>
 
+          {/* Storage Usage */}
+          <StorageUsageCard />
+
+          {/* Encryption */}
+          <CacheEncryptionCard />
+
+          {/* Cached Accounts */}
+          <CachedAccountsCard />
+
+          {/* Database Schema */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium">Database Schema</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0 space-y-2">
+              {schemaInfo ? (
+                <>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">
+                      Version {schemaInfo.version} of {schemaInfo.latestVersion}
+                    </span>
+                    <Badge variant={schemaInfo.status === "ok" ? "secondary" : schemaInfo.status === "failed" ? "destructive" : "outline"}>
+                      {schemaStatusLabel[schemaInfo.status]}
+                    </Badge>
+                  </div>
+                  {lastUpgrade && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Last upgrade:</span>
+                      <span className="font-mono text-xs">
+                        v{lastUpgrade.from} → v{lastUpgrade.to}, {formatDate(lastUpgrade.at)}
+                      </span>
+                    </div>
+                  )}
+                  {schemaInfo.error && (
+                    <div className="text-xs text-red-600 break-words">{schemaInfo.error}</div>
+                  )}
+                </>
+              ) : (
+                <div className="text-sm text-gray-500">Loading...</div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Sync Status */}
           <Card>
             <CardHeader className="pb-3">
@@ -347,13 +787,15 @@ export function StorageManager() {
             <p className="font-medium mb-1">About IndexedDB Storage:</p>
             <p>
               Messages and chats are stored locally in your browser for faster loading and offline access. 
-              Data automatically syncs when you're online, and automatically clears on login/logout.
+              Data automatically syncs when you're online. Each account has its own cache, kept after
+              logout for the {MAX_CACHED_ACCOUNTS} most recently used accounts and for up to {CACHED_ACCOUNT_MAX_AGE_DAYS} days,
+              unless it is encrypted.
             </p>
             <div className="mt-2 pt-2 border-t border-gray-200">
               <p className="font-medium text-orange-600">Action Descriptions:</p>
               <ul className="mt-1 space-y-1 text-xs">
                 <li><strong>Force Sync:</strong> Re-download all data from server</li>
-                <li><strong>Clear Cache:</strong> Remove cached data (keeps sync)</li>
+                <li><strong>Clear Cache:</strong> Remove cached data (keeps unsent messages)</li>
                 <li><strong>Fresh Reload:</strong> Clear all data and reload fresh</li>
                 <li><strong>Emergency Reset:</strong> Force cleanup everything (for issues)</li>
               </ul>
@@ -13,7 +13,7 @@ type AuthContextType = {
   isLoading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, fullName: string, avatarUrl?: string | null) => Promise<void>;
-  signOut: () => Promise<void>;
+  signOut: (options?: { forgetDevice?: boolean }) => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -33,6 +33,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   
   // Flag to track if we're in the middle of a signup process
   const signupDataRef = useRef<{fullName: string, avatarUrl?: string | null} | null>(null);
+  // Set by signOut when the cached data of every account should go too
+  const forgetDeviceRef = useRef(false);
 
   const createProfile = async (user: User, fullName?: string, avatarUrl?: string | null) => {
     try {
@@ -100,7 +102,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Initialize user session with DAO if user exists
       if (data.session?.user) {
         try {
-          await userDataDAO.initializeUserSession(data.session.user.id);
+          await userDataDAO.initializeUserSession(data.session.user.id, data.session.user.email);
         } catch (error) {
           console.error("Error initializing user session with DAO:", error);
         }
@@ -120,8 +122,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         // Handle data clearing and session management with DAO
         if (event === 'SIGNED_IN' && session?.user) {
           try {
-            // Initialize user session and clear previous data
-            await userDataDAO.initializeUserSession(session.user.id);
+            // Initialize user session on the user's own cache
+            await userDataDAO.initializeUserSession(session.user.id, session.user.email);
             
             console.log("SIGNED_IN event, checking signupDataRef:", signupDataRef.current);
             console.log("Session user ID:", session.user.id);
@@ -143,8 +145,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           }
         } else if (event === 'SIGNED_OUT') {
           try {
-            // Terminate user session and clear all data
-            await userDataDAO.terminateUserSession();
+            // Terminate user session; the cache stays unless the device is forgotten
+            await userDataDAO.terminateUserSession(forgetDeviceRef.current);
+            forgetDeviceRef.current = false;
             signupDataRef.current = null; // Clear signup flag on signout
           } catch (error) {
             console.error("Error during sign out with DAO:", error);
@@ -155,7 +158,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             const currentUserId = userDataDAO.getCurrentUserId();
             if (currentUserId !== session.user.id) {
               // Different user somehow, reinitialize
-              await userDataDAO.initializeUserSession(session.user.id);
+              await userDataDAO.initializeUserSession(session.user.id, session.user.email);
             }
           } catch (error) {
             console.error("Error during token refresh with DAO:", error);
@@ -238,7 +241,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const signOut = async () => {
+  const signOut = async (options: { forgetDevice?: boolean } = {}) => {
+    forgetDeviceRef.current = !!options.forgetDevice;
     try {
       // The auth state change will handle the DAO cleanup
       await supabase.auth.signOut();
@@ -247,7 +251,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       console.error("Error during sign out:", error);
       // Force cleanup even if signOut fails
       try {
-        await userDataDAO.terminateUserSession();
+        await userDataDAO.terminateUserSession(forgetDeviceRef.current);
+        forgetDeviceRef.current = false;
       } catch (daoError) {
         console.error("Error during DAO cleanup after failed signOut:", daoError);
       }
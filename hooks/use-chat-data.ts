@@ -1,8 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { syncService, type SyncResult } from "@/lib/sync-service";
-import { type Message, type Chat } from "@/lib/indexeddb";
+import { type RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { syncService, type SyncResult, type SyncInfo, type MessageSearchCursor, type MessageSearchPage } from "@/lib/sync-service";
+import { realtimeManager, type RealtimeConnectionState } from "@/lib/realtime-manager";
+import { tabCoordinator } from "@/lib/tab-coordinator";
+import { indexedDBService, STORES, type Message, type Chat, type SchemaInfo, type CacheEncryptionInfo } from "@/lib/indexeddb";
+import {
+  chatStore,
+  selectChats,
+  selectMessages,
+  selectChatMessagesState,
+  selectLoadingChats,
+  selectHasMoreChats,
+  selectLoadingMoreChats,
+  selectSyncing,
+  selectLastSync,
+  selectError,
+  type ChatStoreState,
+} from "@/lib/chat-store";
+import { hasSearchFilters, type MessageSearchFilters } from "@/lib/message-search";
+import { cacheBudget, type CacheReport } from "@/lib/cache-budget";
+import { useLiveQuery } from "@/hooks/use-live-query";
+import { useChatStore } from "@/hooks/use-chat-store";
 import { useAuth } from "@/components/providers/auth-provider";
 import { supabase } from "@/lib/supabase";
+import { Database } from "@/lib/database.types";
 
 interface UseChatDataOptions {
   chatId?: string;
@@ -17,253 +38,155 @@ interface ChatDataState {
   error: string | null;
   syncing: boolean;
   lastSync?: string;
+  hasMoreMessages: boolean;
+  loadingOlderMessages: boolean;
+  hasMoreChats: boolean;
+  loadingMoreChats: boolean;
 }
 
 interface ChatDataActions {
   sendMessage: (content: string, type?: string) => Promise<Message | null>;
   refreshMessages: () => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
   refreshFreshMessages: () => Promise<void>;
+  reloadLatestMessages: () => Promise<void>;
+  applyRealtimeChange: (
+    payload: RealtimePostgresChangesPayload<Database["public"]["Tables"]["messages"]["Row"]>
+  ) => Promise<void>;
+  applyReadReceipt: (
+    payload: RealtimePostgresChangesPayload<Database["public"]["Tables"]["message_reads"]["Row"]>
+  ) => Promise<void>;
   refreshChats: () => Promise<void>;
   refreshFreshChats: () => Promise<void>;
+  loadMoreChats: () => Promise<void>;
   markMessagesAsRead: (messageIds: string[]) => Promise<void>;
   updateMessage: (messageId: string, newContent: string) => Promise<void>;
   deleteMessage: (messageId: string) => Promise<void>;
+  retryMessage: (messageId: string) => Promise<void>;
+  discardMessage: (messageId: string) => Promise<void>;
   forceSync: () => Promise<void>;
-  searchMessages: (query: string) => Promise<Message[]>;
+  searchMessages: (
+    query: string,
+    filters?: MessageSearchFilters,
+    cursor?: MessageSearchCursor | null
+  ) => Promise<MessageSearchPage>;
   clearCache: () => Promise<void>;
   getSyncInfo: () => Promise<any>;
 }
 
+// A view over the shared chat store: every caller sees the same chats and
+// messages, and loading, syncing and the auto sync timer are shared too
 export function useChatData(options: UseChatDataOptions = {}): [ChatDataState, ChatDataActions] {
   const { user } = useAuth();
   const { chatId, autoSync = true, syncInterval = 30000 } = options;
-  
-  const [state, setState] = useState<ChatDataState>({
-    messages: [],
-    chats: [],
-    loading: !!chatId,
-    error: null,
-    syncing: false,
-  });
-
-  const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const mountedRef = useRef(true);
-
-  // Safe state updates only when component is mounted
-  const safeSetState = useCallback((update: Partial<ChatDataState>) => {
-    if (mountedRef.current) {
-      setState(prev => ({ ...prev, ...update }));
-    }
-  }, []);
 
-  // Load messages for a specific chat
-  const loadMessages = useCallback(async (targetChatId: string) => {
-    if (!targetChatId) return;
+  const chats = useChatStore(selectChats);
+  const messages = useChatStore(useCallback((state: ChatStoreState) => selectMessages(state, chatId), [chatId]));
+  const messagesState = useChatStore(
+    useCallback((state: ChatStoreState) => selectChatMessagesState(state, chatId), [chatId])
+  );
+  const loadingChats = useChatStore(selectLoadingChats);
+  const hasMoreChats = useChatStore(selectHasMoreChats);
+  const loadingMoreChats = useChatStore(selectLoadingMoreChats);
+  const syncing = useChatStore(selectSyncing);
+  const lastSync = useChatStore(selectLastSync);
+  const storeError = useChatStore(selectError);
+
+  const state: ChatDataState = {
+    messages,
+    chats,
+    loading: chatId ? messagesState.loading : loadingChats,
+    error: (chatId ? messagesState.error : null) || storeError,
+    syncing,
+    lastSync,
+    hasMoreMessages: messagesState.hasMore,
+    loadingOlderMessages: messagesState.loadingOlder,
+    hasMoreChats,
+    loadingMoreChats,
+  };
 
-    try {
-      setState(prev => ({ ...prev, loading: true, error: null }));
-      
-      const messages = await syncService.getMessages(targetChatId);
-      
-      setState(prev => ({ 
-        ...prev,
-        messages,
-        loading: false 
-      }));
-    } catch (error) {
-      console.error("Error loading messages:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to load messages",
-        loading: false 
-      }));
+  // Load the chat list once per user, however many views ask for it
+  useEffect(() => {
+    if (!user?.id) {
+      chatStore.setUser(null);
+      return;
     }
-  }, []);
+    chatStore.ensureChats(user.id);
+  }, [user?.id]);
 
-  // Load chats for the current user
-  const loadChats = useCallback(async () => {
-    if (!user?.id) return;
+  // Keep this chat loaded (and auto-synced) while the view is mounted
+  useEffect(() => {
+    if (!user?.id || !chatId) return;
+    return chatStore.openChat(chatId);
+  }, [user?.id, chatId]);
 
-    try {
-      setState(prev => ({ ...prev, loading: true, error: null }));
-      
-      const chats = await syncService.getChats(user.id);
-      
-      setState(prev => ({ 
-        ...prev,
-        chats,
-        loading: false 
-      }));
-    } catch (error) {
-      console.error("Error loading chats:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to load chats",
-        loading: false 
-      }));
-    }
-  }, [user?.id]);
+  useEffect(() => {
+    if (!autoSync || !user?.id) return;
+    return chatStore.startAutoSync(user.id, syncInterval);
+  }, [autoSync, user?.id, syncInterval]);
 
-  // Send a new message
   const sendMessage = useCallback(async (content: string, type: string = 'text'): Promise<Message | null> => {
     if (!user?.id || !chatId || !content.trim()) return null;
+    return chatStore.sendMessage(chatId, user.id, content, type);
+  }, [user?.id, chatId]);
 
-    try {
-      const message = await syncService.addMessageOptimistically({
-        chat_id: chatId,
-        user_id: user.id,
-        content: content.trim(),
-        type,
-        is_read: false,
-        read_at: null,
-      });
-
-      // Update local state immediately
-      setState(prev => ({
-        ...prev,
-        messages: [...prev.messages, message],
-      }));
+  const refreshMessages = useCallback(async () => {
+    if (chatId) await chatStore.loadMessages(chatId);
+  }, [chatId]);
 
-      return message;
-    } catch (error) {
-      console.error("Error sending message:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to send message"
-      }));
-      return null;
-    }
-  }, [user?.id, chatId]);
+  const loadOlderMessages = useCallback(async () => {
+    if (chatId) await chatStore.loadOlderMessages(chatId);
+  }, [chatId]);
 
-  // Refresh messages with fresh data from Supabase (for real-time)
   const refreshFreshMessages = useCallback(async () => {
-    if (!chatId) return;
-    
-    try {
-      setState(prev => ({ ...prev, loading: false, error: null })); // Don't show loading spinner for real-time updates
-      
-      const messages = await syncService.getFreshMessages(chatId);
-      
-      setState(prev => ({ 
-        ...prev,
-        messages,
-        loading: false 
-      }));
-    } catch (error) {
-      console.error("Error refreshing fresh messages:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to refresh messages",
-        loading: false 
-      }));
-    }
+    if (chatId) await chatStore.refreshFreshMessages(chatId);
   }, [chatId]);
 
-  // Refresh messages
-  const refreshMessages = useCallback(async () => {
-    if (!chatId) return;
-    await loadMessages(chatId);
+  const reloadLatestMessages = useCallback(async () => {
+    if (chatId) await chatStore.reloadLatestMessages(chatId);
   }, [chatId]);
 
-  // Refresh chats
+  const applyRealtimeChange = useCallback((
+    payload: RealtimePostgresChangesPayload<Database["public"]["Tables"]["messages"]["Row"]>
+  ) => chatStore.applyRealtimeChange(payload), []);
+
+  const applyReadReceipt = useCallback((
+    payload: RealtimePostgresChangesPayload<Database["public"]["Tables"]["message_reads"]["Row"]>
+  ) => chatStore.applyReadReceipt(payload), []);
+
   const refreshChats = useCallback(async () => {
-    await loadChats();
-  }, [loadChats]);
+    if (user?.id) await chatStore.loadChats(user.id);
+  }, [user?.id]);
 
-  // Refresh fresh chats
   const refreshFreshChats = useCallback(async () => {
-    if (!user?.id) return;
-    
-    try {
-      setState(prev => ({ ...prev, loading: false, error: null }));
-      
-      const chats = await syncService.getFreshChats(user.id);
-      
-      setState(prev => ({ 
-        ...prev,
-        chats,
-        loading: false 
-      }));
-    } catch (error) {
-      console.error("Error refreshing fresh chats:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to refresh chats",
-        loading: false 
-      }));
-    }
+    if (user?.id) await chatStore.refreshFreshChats(user.id);
   }, [user?.id]);
 
-  // Force full sync
-  const forceSync = useCallback(async () => {
-    if (!user?.id) return;
+  const loadMoreChats = useCallback(() => chatStore.loadMoreChats(), []);
 
-    try {
-      safeSetState({ syncing: true });
-      
-      const syncResults = await syncService.fullSync(user.id);
-      
-      // Reload data after sync
-      await Promise.all([
-        chatId ? loadMessages(chatId) : Promise.resolve(),
-        loadChats(),
-      ]);
-
-      // Get updated sync info
-      const syncInfo = await syncService.getSyncInfo();
-      
-      safeSetState({ 
-        syncing: false,
-        lastSync: new Date().toISOString(),
-        error: null 
-      });
+  const forceSync = useCallback(async () => {
+    if (user?.id) await chatStore.forceSync(user.id);
+  }, [user?.id]);
 
-      console.log("Sync completed:", syncResults, syncInfo);
-    } catch (error) {
-      console.error("Error during sync:", error);
-      safeSetState({ 
-        syncing: false,
-        error: error instanceof Error ? error.message : "Sync failed"
-      });
-    }
-  }, [user?.id, chatId, loadMessages, loadChats, safeSetState]);
+  // Within this chat when the hook has one, otherwise across all chats
+  const searchMessages = useCallback(async (
+    query: string,
+    filters: MessageSearchFilters = {},
+    cursor: MessageSearchCursor | null = null
+  ): Promise<MessageSearchPage> => {
+    const scopedFilters = chatId ? { ...filters, chatIds: [chatId] } : filters;
+    if (!query.trim() && !hasSearchFilters(scopedFilters)) return { results: [], nextCursor: null };
 
-  // Search messages
-  const searchMessages = useCallback(async (query: string): Promise<Message[]> => {
-    if (!query.trim()) return [];
-    
     try {
-      return await syncService.searchMessages(query, chatId);
+      return await syncService.searchMessages(query, scopedFilters, cursor);
     } catch (error) {
       console.error("Error searching messages:", error);
-      return [];
+      return { results: [], nextCursor: null };
     }
   }, [chatId]);
 
-  // Clear cache
-  const clearCache = useCallback(async () => {
-    try {
-      await syncService.clearCache();
-      safeSetState({
-        messages: [],
-        chats: [],
-        lastSync: undefined,
-      });
-      
-      // Reload data
-      await Promise.all([
-        chatId ? loadMessages(chatId) : Promise.resolve(),
-        loadChats(),
-      ]);
-    } catch (error) {
-      console.error("Error clearing cache:", error);
-      safeSetState({ 
-        error: error instanceof Error ? error.message : "Failed to clear cache"
-      });
-    }
-  }, [chatId, loadMessages, loadChats, safeSetState]);
+  const clearCache = useCallback(() => chatStore.clearCache(user?.id), [user?.id]);
 
-  // Get sync info
   const getSyncInfo = useCallback(async () => {
     try {
       return await syncService.getSyncInfo();
@@ -273,151 +196,37 @@ export function useChatData(options: UseChatDataOptions = {}): [ChatDataState, C
     }
   }, []);
 
-  // Auto-sync setup
-  useEffect(() => {
-    if (!autoSync || !user?.id) return;
-
-    const startAutoSync = () => {
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-      }
-
-      syncIntervalRef.current = setInterval(async () => {
-        try {
-          if (user?.id) {
-            await syncService.syncChats(user.id);
-            if (chatId) {
-              await syncService.syncMessages(chatId);
-            }
-          }
-        } catch (error) {
-          console.error("Auto-sync error:", error);
-        }
-      }, syncInterval);
-    };
-
-    startAutoSync();
-
-    return () => {
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
-    };
-  }, [autoSync, user?.id, chatId, syncInterval]);
-
-  // Load initial data
-  useEffect(() => {
-    if (!user?.id) return;
-
-    const loadInitialData = async () => {
-      await loadChats();
-      if (chatId) {
-        await loadMessages(chatId);
-      } else {
-        setState(prev => ({ ...prev, messages: [], loading: false }));
-      }
-    };
-
-    loadInitialData();
-  }, [user?.id, chatId]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      mountedRef.current = false;
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-      }
-    };
-  }, []);
-
-  // Mark messages as read
   const markMessagesAsRead = useCallback(async (messageIds: string[]) => {
-    if (messageIds.length === 0) return;
-
-    try {
-      await syncService.markMessagesAsRead(messageIds);
-      
-      // Update local state immediately to reflect read status
-      setState(prev => ({
-        ...prev,
-        messages: prev.messages.map(msg => 
-          messageIds.includes(msg.id) 
-            ? { ...msg, is_read: true, read_at: new Date().toISOString() }
-            : msg
-        )
-      }));
-
-      // Also refresh chats to update unread counts in the sidebar
-      if (user?.id) {
-        try {
-          await refreshFreshChats();
-          console.log("Refreshed chat list after marking messages as read");
-        } catch (error) {
-          console.warn("Failed to refresh chats after marking messages as read:", error);
-        }
-      }
-    } catch (error) {
-      console.error("Error marking messages as read:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to mark messages as read"
-      }));
-    }
-  }, [user?.id, refreshFreshChats]);
+    if (messageIds.length === 0 || !user?.id) return;
+    await chatStore.markMessagesAsRead(messageIds, user.id);
+  }, [user?.id]);
 
-  // Update message
   const updateMessage = useCallback(async (messageId: string, newContent: string) => {
     if (!user?.id || !chatId || !messageId || !newContent.trim()) return;
-
-    try {
-      await syncService.updateMessageOptimistically(messageId, newContent.trim());
-      
-      // Update local state immediately to reflect updated content
-      setState(prev => ({
-        ...prev,
-        messages: prev.messages.map(msg => 
-          msg.id === messageId ? { ...msg, content: newContent.trim() } : msg
-        )
-      }));
-    } catch (error) {
-      console.error("Error updating message:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to update message"
-      }));
-    }
+    await chatStore.updateMessage(messageId, newContent);
   }, [user?.id, chatId]);
 
-  // Delete message
   const deleteMessage = useCallback(async (messageId: string) => {
     if (!user?.id || !chatId || !messageId) return;
-
-    try {
-      await syncService.deleteMessageOptimistically(messageId);
-      
-      // Update local state immediately to reflect deleted status
-      setState(prev => ({
-        ...prev,
-        messages: prev.messages.filter(msg => msg.id !== messageId)
-      }));
-    } catch (error) {
-      console.error("Error deleting message:", error);
-      setState(prev => ({ 
-        ...prev,
-        error: error instanceof Error ? error.message : "Failed to delete message"
-      }));
-    }
+    await chatStore.deleteMessage(messageId);
   }, [user?.id, chatId]);
 
+  const retryMessage = useCallback((messageId: string) => chatStore.retryMessage(messageId), []);
+
+  const discardMessage = useCallback((messageId: string) => chatStore.discardMessage(messageId), []);
+
   // Actions object
   const actions: ChatDataActions = {
     sendMessage,
     refreshMessages,
+    loadOlderMessages,
     refreshFreshMessages,
+    reloadLatestMessages,
+    applyRealtimeChange,
+    applyReadReceipt,
     refreshChats,
     refreshFreshChats,
+    loadMoreChats,
     forceSync,
     searchMessages,
     clearCache,
@@ -425,6 +234,8 @@ export function useChatData(options: UseChatDataOptions = {}): [ChatDataState, C
     markMessagesAsRead,
     updateMessage,
     deleteMessage,
+    retryMessage,
+    discardMessage,
   };
 
   return [state, actions];
@@ -434,37 +245,22 @@ export function useChatData(options: UseChatDataOptions = {}): [ChatDataState, C
 export function useOfflineSync() {
   const [isOnline, setIsOnline] = useState(true); // Default to true for SSR
   const [pendingSync, setPendingSync] = useState(false);
+  const [realtimeState, setRealtimeState] = useState<RealtimeConnectionState>("connected");
   const { user } = useAuth();
 
-  // Set actual online status after component mounts
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      setIsOnline(navigator.onLine);
-    }
-  }, []);
+  // Follows queued writes as they are added, retried and flushed
+  const { data: pendingOutbox } = useLiveQuery(() => syncService.getPendingOutboxCount(), [], {
+    watch: [{ store: STORES.OUTBOX }],
+    initialValue: 0,
+  });
 
+  // Set actual online status after component mounts
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
-    const handleOnline = async () => {
-      setIsOnline(true);
-      
-      if (user?.id && pendingSync) {
-        try {
-          setPendingSync(false);
-          await syncService.fullSync(user.id);
-          console.log("Offline sync completed");
-        } catch (error) {
-          console.error("Offline sync failed:", error);
-          setPendingSync(true);
-        }
-      }
-    };
-
-    const handleOffline = () => {
-      setIsOnline(false);
-      setPendingSync(true);
-    };
+    setIsOnline(navigator.onLine);
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
 
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
@@ -473,40 +269,124 @@ export function useOfflineSync() {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, [user?.id, pendingSync]);
+  }, []);
+
+  // Outbox replays and offline catch-up run once per tab, in the leader
+  useEffect(() => {
+    if (!user?.id) return;
+    return syncService.watchConnectivity(user.id);
+  }, [user?.id]);
+
+  useEffect(() => {
+    setPendingSync(syncService.isOfflineSyncPending);
+    return syncService.onOfflineSyncChange(setPendingSync);
+  }, []);
+
+  // Follow the shared realtime connection
+  useEffect(() => {
+    setRealtimeState(realtimeManager.getConnectionState());
+    return realtimeManager.onConnectionStateChange(setRealtimeState);
+  }, []);
 
   return {
     isOnline,
     pendingSync,
-    syncWhenOnline: () => setPendingSync(true),
+    pendingOutbox,
+    realtimeState,
+    syncWhenOnline: () => syncService.requestOfflineSync(),
+    flushOutbox: () => syncService.flushOutbox(),
   };
 }
 
 // Hook for storage management
 export function useStorageInfo() {
-  const [storageInfo, setStorageInfo] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
+  // Counts and sync times stay current as the cache is written
+  const { data: storageInfo, loading, refresh } = useLiveQuery<SyncInfo | null>(() => syncService.getSyncInfo(), [], {
+    watch: Object.values(STORES).map((store) => ({ store })),
+    initialValue: null,
+  });
+  const { data: schemaInfo, refresh: refreshSchemaInfo } = useLiveQuery<SchemaInfo | null>(
+    () => indexedDBService.getSchemaInfo(),
+    [],
+    { watch: [], initialValue: null }
+  );
+
+  const refreshAll = useCallback(async () => {
+    await Promise.all([refresh(), refreshSchemaInfo()]);
+  }, [refresh, refreshSchemaInfo]);
+
+  return {
+    storageInfo,
+    schemaInfo,
+    loading,
+    refresh: refreshAll,
+  };
+}
+
+// Hook for the cache budget: real usage, per-chat sizes and persistence.
+// Sizing reads every cached message, so mount it only while it is shown.
+export function useCacheBudget() {
+  const { data: report, loading, refresh } = useLiveQuery<CacheReport | null>(() => cacheBudget.getReport(), [], {
+    watch: [{ store: STORES.MESSAGES }, { store: STORES.CHAT_USAGE }],
+    initialValue: null,
+  });
+
+  const setBudget = useCallback(async (budgetBytes: number) => {
+    await cacheBudget.setBudget(budgetBytes, chatStore.getActiveChatIds());
+    await refresh();
+  }, [refresh]);
+
+  const freeUpSpace = useCallback(
+    () => cacheBudget.enforce(chatStore.getActiveChatIds()),
+    []
+  );
+
+  const requestPersistence = useCallback(async () => {
+    const persisted = await cacheBudget.requestPersistence();
+    await refresh();
+    return persisted;
+  }, [refresh]);
+
+  return {
+    report,
+    loading,
+    refresh,
+    setBudget,
+    freeUpSpace,
+    requestPersistence,
+  };
+}
 
-  const refreshStorageInfo = useCallback(async () => {
+// Encryption of the signed-in user's cache. Key changes aren't writes to
+// the cache, so the info is refreshed after each action instead of watched.
+export function useCacheEncryption() {
+  const { data: info, loading, refresh } = useLiveQuery<CacheEncryptionInfo | null>(
+    () => indexedDBService.getEncryptionInfo(),
+    [],
+    { watch: [], initialValue: null }
+  );
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
     try {
-      setLoading(true);
-      const info = await syncService.getSyncInfo();
-      setStorageInfo(info);
-    } catch (error) {
-      console.error("Error getting storage info:", error);
+      await (enabled ? indexedDBService.enableEncryption() : indexedDBService.disableEncryption());
     } finally {
-      setLoading(false);
+      await refresh();
     }
-  }, []);
+  }, [refresh]);
 
-  useEffect(() => {
-    refreshStorageInfo();
-  }, [refreshStorageInfo]);
+  const rotateKey = useCallback(async () => {
+    try {
+      await indexedDBService.rotateEncryptionKey();
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
 
   return {
-    storageInfo,
+    info,
     loading,
-    refresh: refreshStorageInfo,
+    setEnabled,
+    rotateKey,
   };
 }
 
@@ -543,6 +423,12 @@ export function useOnlineStatus() {
       return;
     }
 
+    // One tab reporting presence is enough
+    if (!tabCoordinator.isLeader()) {
+      console.log("⏭️ Skipping last_seen update - another tab is the leader");
+      return;
+    }
+
     try {
       console.log("🔄 Updating last_seen for user:", user.id);
       const { error } = await supabase
@@ -603,37 +489,30 @@ export function useOnlineStatus() {
   useEffect(() => {
     if (!user?.id) return;
 
-    const subscription = supabase
-      .channel("profiles-online-status")
-      .on(
-        "postgres_changes",
-        {
-          event: "UPDATE",
-          schema: "public",
-          table: "profiles",
-        },
-        (payload: any) => {
-          const updatedProfile = payload.new;
-          
-          // Don't update status for current user
-          if (updatedProfile.id === user.id) return;
-
-          const isOnline = isUserOnline(updatedProfile.last_seen);
-          
-          setUserStatuses(prev => ({
-            ...prev,
-            [updatedProfile.id]: isOnline
-          }));
-
-          console.log(`User ${updatedProfile.id} is now ${isOnline ? 'online' : 'offline'}`);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, [user?.id, isUserOnline]);
+    return realtimeManager.subscribe<Database["public"]["Tables"]["profiles"]["Row"]>({
+      key: "profiles-online-status",
+      table: "profiles",
+      event: "UPDATE",
+      onChange: (payload) => {
+        if (payload.eventType !== "UPDATE") return;
+        const updatedProfile = payload.new;
+        
+        // Don't update status for current user
+        if (updatedProfile.id === user.id) return;
+
+        const isOnline = isUserOnline(updatedProfile.last_seen);
+        
+        setUserStatuses(prev => ({
+          ...prev,
+          [updatedProfile.id]: isOnline
+        }));
+
+        console.log(`User ${updatedProfile.id} is now ${isOnline ? 'online' : 'offline'}`);
+      },
+      // Statuses may have changed while the channel was down
+      onReconnect: fetchUserStatuses,
+    });
+  }, [user?.id, isUserOnline, fetchUserStatuses]);
 
   // Track online/offline state
   useEffect(() => {
@@ -679,6 +558,15 @@ export function useOnlineStatus() {
     };
   }, [user?.id, updateLastSeen]);
 
+  // A tab that takes over as leader reports presence right away
+  useEffect(() => {
+    if (!user?.id) return;
+
+    return tabCoordinator.onLeadershipChange((isLeader) => {
+      if (isLeader) updateLastSeen();
+    });
+  }, [user?.id, updateLastSeen]);
+
   // Fetch initial statuses
   useEffect(() => {
     fetchUserStatuses();
@@ -0,0 +1,12 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { chatStore, type ChatStoreState } from "@/lib/chat-store";
+
+const subscribe = (listener: () => void) => chatStore.subscribe(listener);
+
+// Read a slice of the shared chat store; re-renders when the slice changes.
+// Selectors must return the same value for the same state (see the memoized
+// selectors in lib/chat-store).
+export function useChatStore<T>(selector: (state: ChatStoreState) => T): T {
+  const getSnapshot = useCallback(() => selector(chatStore.getState()), [selector]);
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
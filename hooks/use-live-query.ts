@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback, useRef, type DependencyList } from "react";
+import { indexedDBService, matchesChange, STORES, type DBChangeFilter, type Chat, type Message } from "@/lib/indexeddb";
+
+interface UseLiveQueryOptions<T> {
+  // The stores (and optionally keys or chats) the query reads
+  watch: DBChangeFilter[];
+  initialValue: T;
+}
+
+interface LiveQueryResult<T> {
+  data: T;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+// Run an IndexedDB query and run it again whenever a write (in this or
+// another tab) touches what it watches
+export function useLiveQuery<T>(
+  query: () => Promise<T>,
+  deps: DependencyList,
+  { watch, initialValue }: UseLiveQueryOptions<T>
+): LiveQueryResult<T> {
+  const [data, setData] = useState<T>(initialValue);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const queryRef = useRef(query);
+  const runningRef = useRef(false);
+  const rerunRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  queryRef.current = query;
+
+  // Changes arriving mid-query run it once more afterwards instead of
+  // stacking up overlapping reads
+  const refresh = useCallback(async () => {
+    if (runningRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+
+    runningRef.current = true;
+    try {
+      do {
+        rerunRef.current = false;
+        try {
+          const result = await queryRef.current();
+          if (mountedRef.current) {
+            setData(result);
+            setError(null);
+          }
+        } catch (error) {
+          console.error("Live query failed:", error);
+          if (mountedRef.current) {
+            setError(error instanceof Error ? error.message : "Query failed");
+          }
+        }
+      } while (rerunRef.current && mountedRef.current);
+    } finally {
+      runningRef.current = false;
+      if (mountedRef.current) setLoading(false);
+    }
+  }, []);
+
+  // The query reads `deps` through queryRef; like `watch`, they are compared
+  // by value and should be serializable
+  const depsKey = JSON.stringify(deps);
+  useEffect(() => {
+    refresh();
+  }, [depsKey, refresh]);
+
+  const watchKey = JSON.stringify(watch);
+  useEffect(() => {
+    const filters: DBChangeFilter[] = JSON.parse(watchKey);
+
+    return indexedDBService.onChange((changes) => {
+      const relevant = changes.some((change) =>
+        filters.some((filter) => matchesChange(filter, change))
+      );
+      if (relevant) refresh();
+    });
+  }, [watchKey, refresh]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  return { data, loading, error, refresh };
+}
+
+// Every cached chat with its participants, newest activity first
+export function useLiveChats(): LiveQueryResult<Chat[]> {
+  return useLiveQuery(() => indexedDBService.getChats(), [], {
+    watch: [
+      { store: STORES.CHATS },
+      { store: STORES.CHAT_PARTICIPANTS },
+      { store: STORES.PROFILES },
+    ],
+    initialValue: [],
+  });
+}
+
+// Every cached message of a chat, oldest first
+export function useLiveMessages(chatId?: string): LiveQueryResult<Message[]> {
+  return useLiveQuery(
+    async () => (chatId ? indexedDBService.getMessagesByChatId(chatId) : []),
+    [chatId],
+    {
+      watch: chatId ? [{ store: STORES.MESSAGES, chatId }] : [],
+      initialValue: [],
+    }
+  );
+}
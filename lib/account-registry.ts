@@ -0,0 +1,139 @@
+// Which accounts have a cache on this device. Each account's data lives in
+// its own database (see databaseNameFor); this small database outside them
+// records when each was last used, so old caches can be pruned. It also
+// holds the keys of encrypted caches, apart from the data they protect.
+
+import type { CacheKeyring } from "./cache-crypto";
+
+interface CachedAccount {
+  user_id: string;
+  database: string;
+  email: string | null;
+  last_used_at: string;
+  // The user chose to encrypt their cache on this device
+  encrypted?: boolean;
+}
+
+const REGISTRY_DB_NAME = "ChatAppAccounts";
+const REGISTRY_DB_VERSION = 2;
+const ACCOUNTS_STORE = "accounts";
+const FLAGS_STORE = "flags";
+const KEYRINGS_STORE = "keyrings";
+
+// Set once the shared database of earlier versions has been split up
+const LEGACY_ADOPTED_FLAG = "legacy_database_adopted";
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class AccountRegistry {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof window === "undefined" || !window.indexedDB) {
+      return Promise.reject(new Error("IndexedDB is not available in this environment"));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(REGISTRY_DB_NAME, REGISTRY_DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(ACCOUNTS_STORE)) {
+            db.createObjectStore(ACCOUNTS_STORE, { keyPath: "user_id" });
+          }
+          if (!db.objectStoreNames.contains(FLAGS_STORE)) {
+            db.createObjectStore(FLAGS_STORE, { keyPath: "id" });
+          }
+          if (!db.objectStoreNames.contains(KEYRINGS_STORE)) {
+            db.createObjectStore(KEYRINGS_STORE, { keyPath: "user_id" });
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer version of the app upgrade the registry
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+      }).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getStore(storeName: string, mode: IDBTransactionMode = "readonly"): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(storeName, mode).objectStore(storeName);
+  }
+
+  async recordUse(account: Omit<CachedAccount, "last_used_at" | "encrypted">): Promise<void> {
+    const store = await this.getStore(ACCOUNTS_STORE, "readwrite");
+    const existing: CachedAccount | undefined = await requestResult(store.get(account.user_id));
+    await requestResult(store.put({ ...existing, ...account, last_used_at: new Date().toISOString() }));
+  }
+
+  async isEncrypted(userId: string): Promise<boolean> {
+    const store = await this.getStore(ACCOUNTS_STORE);
+    const account: CachedAccount | undefined = await requestResult(store.get(userId));
+    return !!account?.encrypted;
+  }
+
+  // Kept across sign-outs, so the next session encrypts again
+  async setEncrypted(userId: string, encrypted: boolean): Promise<void> {
+    const store = await this.getStore(ACCOUNTS_STORE, "readwrite");
+    const account: CachedAccount | undefined = await requestResult(store.get(userId));
+    if (account) {
+      await requestResult(store.put({ ...account, encrypted }));
+    }
+  }
+
+  // Most recently used first
+  async list(): Promise<CachedAccount[]> {
+    const store = await this.getStore(ACCOUNTS_STORE);
+    const accounts: CachedAccount[] = await requestResult(store.getAll());
+    return accounts.sort((a, b) => b.last_used_at.localeCompare(a.last_used_at));
+  }
+
+  async remove(userId: string): Promise<void> {
+    const store = await this.getStore(ACCOUNTS_STORE, "readwrite");
+    await requestResult(store.delete(userId));
+  }
+
+  async getKeyring(userId: string): Promise<CacheKeyring | null> {
+    const store = await this.getStore(KEYRINGS_STORE);
+    return (await requestResult(store.get(userId))) || null;
+  }
+
+  async saveKeyring(keyring: CacheKeyring): Promise<void> {
+    const store = await this.getStore(KEYRINGS_STORE, "readwrite");
+    await requestResult(store.put(keyring));
+  }
+
+  async deleteKeyring(userId: string): Promise<void> {
+    const store = await this.getStore(KEYRINGS_STORE, "readwrite");
+    await requestResult(store.delete(userId));
+  }
+
+  async isLegacyAdopted(): Promise<boolean> {
+    const store = await this.getStore(FLAGS_STORE);
+    return !!(await requestResult(store.get(LEGACY_ADOPTED_FLAG)));
+  }
+
+  async markLegacyAdopted(): Promise<void> {
+    const store = await this.getStore(FLAGS_STORE, "readwrite");
+    await requestResult(store.put({ id: LEGACY_ADOPTED_FLAG, at: new Date().toISOString() }));
+  }
+}
+
+export const accountRegistry = new AccountRegistry();
+
+export type { CachedAccount };
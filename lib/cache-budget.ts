@@ -0,0 +1,167 @@
+// Keeps the message cache within a size budget. The chats opened least
+// recently are trimmed to their newest messages first; anything trimmed is
+// fetched from Supabase again when scrolled back to. Also wraps the Storage
+// API for real usage figures and persistent storage.
+
+import { indexedDBService, type ChatStorageSize } from "./indexeddb";
+
+interface StorageEstimateInfo {
+  // Whole origin, as reported by the browser; null where unsupported
+  usageBytes: number | null;
+  quotaBytes: number | null;
+  // Whether the browser promised not to clear our data under pressure
+  persisted: boolean;
+  persistenceSupported: boolean;
+}
+
+interface CacheReport extends StorageEstimateInfo {
+  budgetBytes: number;
+  // Estimated size of all cached messages, what the budget applies to
+  cacheBytes: number;
+  chats: ChatStorageSize[];
+}
+
+interface EvictionResult {
+  trimmedChats: number;
+  removedMessages: number;
+  cacheBytes: number;
+}
+
+// Messages every trimmed chat keeps, enough to open it without a fetch
+const KEEP_MESSAGES_PER_CHAT = 50;
+// Trim down to this share of the budget, so the next sync doesn't trigger
+// another eviction right away
+const EVICTION_TARGET_RATIO = 0.8;
+// Treat the cache as over budget when the origin nears its quota
+const QUOTA_PRESSURE_RATIO = 0.9;
+const BUDGET_OPTIONS_MB = [25, 50, 100, 250, 500];
+
+const storageApi = () =>
+  typeof navigator !== "undefined" && navigator.storage ? navigator.storage : null;
+
+class CacheBudget {
+  private evicting: Promise<EvictionResult> | null = null;
+
+  async getEstimate(): Promise<StorageEstimateInfo> {
+    const storage = storageApi();
+    const [estimate, persisted] = await Promise.all([
+      storage?.estimate ? storage.estimate().catch(() => null) : Promise.resolve(null),
+      storage?.persisted ? storage.persisted().catch(() => false) : Promise.resolve(false),
+    ]);
+
+    return {
+      usageBytes: estimate?.usage ?? null,
+      quotaBytes: estimate?.quota ?? null,
+      persisted,
+      persistenceSupported: !!storage?.persist,
+    };
+  }
+
+  // Ask the browser to keep our data under storage pressure. Browsers may
+  // grant or deny this without asking the user; resolves to the outcome.
+  async requestPersistence(): Promise<boolean> {
+    const storage = storageApi();
+    if (!storage?.persist) return false;
+
+    try {
+      const persisted = await storage.persist();
+      console.log(`Persistent storage ${persisted ? "granted" : "denied"}`);
+      return persisted;
+    } catch (error) {
+      console.warn("Persistent storage request failed:", error);
+      return false;
+    }
+  }
+
+  // Mark a chat as just opened, putting it last in line for trimming
+  recordChatOpened(chatId: string): Promise<void> {
+    return indexedDBService.recordChatOpened(chatId);
+  }
+
+  async getReport(): Promise<CacheReport> {
+    const [estimate, settings, chats] = await Promise.all([
+      this.getEstimate(),
+      indexedDBService.getStorageSettings(),
+      indexedDBService.getChatStorageSizes(),
+    ]);
+
+    return {
+      ...estimate,
+      budgetBytes: settings.budgetBytes,
+      cacheBytes: chats.reduce((total, chat) => total + chat.bytes, 0),
+      chats,
+    };
+  }
+
+  async setBudget(budgetBytes: number, protectedChatIds: Iterable<string> = []): Promise<void> {
+    await indexedDBService.saveStorageSettings({ budgetBytes });
+    await this.enforce(protectedChatIds);
+  }
+
+  // Trim least recently opened chats until the cache fits the budget.
+  // `protectedChatIds` (chats open in some view) are never trimmed.
+  enforce(protectedChatIds: Iterable<string> = []): Promise<EvictionResult> {
+    // One eviction at a time; callers during a run share its result
+    if (!this.evicting) {
+      this.evicting = this.evict(new Set(protectedChatIds)).finally(() => {
+        this.evicting = null;
+      });
+    }
+    return this.evicting;
+  }
+
+  private async evict(protectedChatIds: Set<string>): Promise<EvictionResult> {
+    const report = await this.getReport();
+    const nearQuota = report.usageBytes !== null && report.quotaBytes !== null
+      && report.usageBytes > report.quotaBytes * QUOTA_PRESSURE_RATIO;
+    const result: EvictionResult = { trimmedChats: 0, removedMessages: 0, cacheBytes: report.cacheBytes };
+
+    if (report.cacheBytes <= report.budgetBytes && !nearQuota) return result;
+
+    const target = Math.min(report.budgetBytes, report.cacheBytes) * EVICTION_TARGET_RATIO;
+    // Never opened sorts first, then oldest open
+    const candidates = report.chats
+      .filter((chat) => !protectedChatIds.has(chat.chat_id) && chat.message_count > KEEP_MESSAGES_PER_CHAT)
+      .sort((a, b) => (a.last_opened_at || "").localeCompare(b.last_opened_at || ""));
+
+    for (const chat of candidates) {
+      if (result.cacheBytes <= target) break;
+
+      const removed = await indexedDBService.trimChatMessages(chat.chat_id, KEEP_MESSAGES_PER_CHAT);
+      if (removed === 0) continue;
+
+      result.trimmedChats += 1;
+      result.removedMessages += removed;
+      // Messages are of roughly even size within a chat
+      result.cacheBytes -= Math.round(chat.bytes * (removed / chat.message_count));
+    }
+
+    console.log(
+      `Cache eviction trimmed ${result.removedMessages} messages from ${result.trimmedChats} chats`,
+      `(~${Math.round(result.cacheBytes / 1024)} KB cached, budget ${Math.round(report.budgetBytes / 1024)} KB)`
+    );
+    if (result.cacheBytes > report.budgetBytes) {
+      console.warn("Cache is still over budget; the remaining messages belong to open chats or are unsent");
+    }
+    return result;
+  }
+}
+
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return "Unknown";
+  if (bytes < 1024) return `${bytes} B`;
+
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+export const cacheBudget = new CacheBudget();
+
+export { KEEP_MESSAGES_PER_CHAT, BUDGET_OPTIONS_MB, formatBytes };
+export type { StorageEstimateInfo, CacheReport, EvictionResult };
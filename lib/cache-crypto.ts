@@ -0,0 +1,170 @@
+// Encryption at rest for the local cache. Sensitive fields of cached records
+// are sealed one by one with AES-GCM, so keys, timestamps and flags stay
+// readable for indexes and for merges inside a transaction. Search index
+// words are replaced by HMAC tokens, which match equal words without
+// revealing them. Keys are generated non-extractable: the page can use them
+// but never read them out, and they live in the account registry, apart
+// from the data they protect.
+
+interface CacheKey {
+  id: string;
+  encryption: CryptoKey;
+  search: CryptoKey;
+  created_at: string;
+}
+
+// An account's keys. New writes are sealed with `current`; other keys are
+// only kept while a rewrite moves records off them. A null `current` means
+// encryption is being turned off: records still open, but are no longer sealed.
+interface CacheKeyring {
+  user_id: string;
+  current: string | null;
+  keys: CacheKey[];
+  // Set until every record has been rewritten to `current`
+  rewriting: boolean;
+}
+
+interface SealedValue {
+  $sealed: true;
+  kid: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  // Set for a sealed Blob, whose bytes are sealed as they are
+  blobType?: string;
+}
+
+const IV_BYTES = 12;
+// Search tokens are truncated HMACs; 16 bytes keep collisions out of reach
+const SEARCH_TOKEN_BYTES = 16;
+// Words repeat across messages, so recent tokens are kept in memory
+const SEARCH_TOKEN_CACHE_SIZE = 5000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function isSealed(value: unknown): value is SealedValue {
+  return typeof value === "object" && value !== null && (value as SealedValue).$sealed === true;
+}
+
+function isCacheEncryptionSupported(): boolean {
+  return typeof crypto !== "undefined" && !!crypto.subtle;
+}
+
+async function createCacheKey(): Promise<CacheKey> {
+  const [encryption, search] = await Promise.all([
+    crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]),
+    crypto.subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, false, ["sign"]),
+  ]);
+  return { id: crypto.randomUUID(), encryption, search, created_at: new Date().toISOString() };
+}
+
+// Serialized size of a record, sealed fields counted by their ciphertext
+function sealedRecordBytes(record: unknown): number {
+  let sealedBytes = 0;
+  const json = JSON.stringify(record, (_key, value) => {
+    if (!isSealed(value)) return value;
+    sealedBytes += value.iv.byteLength + value.data.byteLength;
+    return null;
+  });
+  return encoder.encode(json).length + sealedBytes;
+}
+
+// Identifies a record's exact stored state: sealed values by their IV, which
+// is new on every seal
+function recordFingerprint(record: unknown): string {
+  return JSON.stringify(record, (_key, value) =>
+    isSealed(value) ? `${value.kid}:${Array.from(value.iv).join(",")}` : value
+  );
+}
+
+class CacheCipher {
+  private keys: Map<string, CacheKey>;
+  private searchTokens: Map<string, string> = new Map();
+
+  constructor(readonly keyring: CacheKeyring) {
+    this.keys = new Map(keyring.keys.map((key) => [key.id, key]));
+  }
+
+  private get currentKey(): CacheKey | null {
+    return this.keyring.current ? this.keys.get(this.keyring.current) || null : null;
+  }
+
+  // Whether new writes are sealed
+  get sealing(): boolean {
+    return this.currentKey !== null;
+  }
+
+  async seal(value: unknown): Promise<unknown> {
+    const key = this.currentKey;
+    if (!key || value === undefined || value === null || isSealed(value)) return value;
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    // Files (queued attachments) don't survive JSON
+    const isBlob = typeof Blob !== "undefined" && value instanceof Blob;
+    const data = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key.encryption,
+      isBlob ? await value.arrayBuffer() : encoder.encode(JSON.stringify(value))
+    );
+    const sealed: SealedValue = { $sealed: true, kid: key.id, iv, data };
+    if (isBlob) sealed.blobType = value.type;
+    return sealed;
+  }
+
+  // Plain values pass through. Throws for values sealed with a key that is
+  // gone or that fail authentication.
+  async open(value: unknown): Promise<unknown> {
+    if (!isSealed(value)) return value;
+
+    const key = this.keys.get(value.kid);
+    if (!key) throw new Error("Cached value was sealed with a key that no longer exists");
+
+    const data = await crypto.subtle.decrypt({ name: "AES-GCM", iv: value.iv }, key.encryption, value.data);
+    if (value.blobType !== undefined) return new Blob([data], { type: value.blobType });
+    return JSON.parse(decoder.decode(data));
+  }
+
+  async sealFields<T extends object>(record: T, fields: readonly string[]): Promise<T> {
+    if (!this.sealing) return record;
+
+    const sealed = { ...record } as Record<string, unknown>;
+    for (const field of fields) {
+      if (field in sealed) sealed[field] = await this.seal(sealed[field]);
+    }
+    return sealed as T;
+  }
+
+  async openFields<T extends object>(record: T, fields: readonly string[]): Promise<T> {
+    const opened = { ...record } as Record<string, unknown>;
+    for (const field of fields) {
+      if (field in opened) opened[field] = await this.open(opened[field]);
+    }
+    return opened as T;
+  }
+
+  // Stands in for a word in the search index. Equal words give equal
+  // tokens under the same key, and nothing else can be learned from them.
+  async searchToken(text: string): Promise<string> {
+    const key = this.currentKey;
+    if (!key) throw new Error("Search tokens need an encryption key");
+
+    let token = this.searchTokens.get(text);
+    if (token === undefined) {
+      const mac = await crypto.subtle.sign("HMAC", key.search, encoder.encode(text));
+      token = Array.from(new Uint8Array(mac, 0, SEARCH_TOKEN_BYTES), (byte) => byte.toString(16).padStart(2, "0")).join("");
+      if (this.searchTokens.size >= SEARCH_TOKEN_CACHE_SIZE) this.searchTokens.clear();
+      this.searchTokens.set(text, token);
+    }
+    return token;
+  }
+}
+
+export {
+  CacheCipher,
+  isSealed,
+  isCacheEncryptionSupported,
+  createCacheKey,
+  sealedRecordBytes,
+  recordFingerprint,
+};
+export type { CacheKey, CacheKeyring, SealedValue };
@@ -0,0 +1,92 @@
+// What SyncService needs from a local store: messages, chats, profiles,
+// participants, sync watermarks and the outbox. IndexedDBService is the
+// browser's implementation; MemoryStorage stands in where IndexedDB does not
+// exist, such as server rendering, Node scripts and tests.
+
+import type {
+  Message,
+  Chat,
+  ChatSummary,
+  ChatParticipantRecord,
+  Profile,
+  SyncStatus,
+  SyncEntityType,
+  OutboxEntry,
+  DBChange,
+  MessageSearchResult,
+} from "./indexeddb";
+import type { MessageSearchFilters } from "./message-search";
+
+// Row counts, and what the whole origin uses of its quota where the browser
+// reports it
+interface StorageInfo {
+  messagesCount: number;
+  chatsCount: number;
+  profilesCount: number;
+  usageBytes: number | null;
+  quotaBytes: number | null;
+}
+
+interface ChatStorage {
+  // Called with every batch of committed writes
+  onChange(listener: (changes: DBChange[]) => void): () => void;
+
+  // Messages. Pages are ascending, created before `before` (newest page when
+  // null) and not older than `floor`.
+  saveMessage(message: Message): Promise<void>;
+  saveMessages(messages: Message[]): Promise<void>;
+  getMessage(messageId: string): Promise<Message | null>;
+  getMessagesByChatId(chatId: string): Promise<Message[]>;
+  getMessagesPage(chatId: string, before: string | null, limit: number, floor?: string): Promise<Message[]>;
+  getMessagesByClientId(clientId: string): Promise<Message[]>;
+  // Rejects when the message is not stored
+  updateMessage(messageId: string, updates: Partial<Message>): Promise<void>;
+  deleteMessage(messageId: string): Promise<void>;
+  deleteMessages(messageIds: string[]): Promise<void>;
+  searchMessages(query: string, filters?: MessageSearchFilters, limit?: number): Promise<MessageSearchResult[]>;
+
+  // Chats. saveChats keeps stored summaries and replaces the membership of
+  // chats that carry their participants.
+  saveChat(chat: Chat): Promise<void>;
+  saveChats(chats: Chat[]): Promise<void>;
+  // Newest activity first, with participants and their profiles
+  getChats(): Promise<Chat[]>;
+  getChatIds(): Promise<string[]>;
+  getChat(chatId: string): Promise<Chat | null>;
+  // Rejects when the chat is not stored
+  updateChat(chatId: string, updates: Partial<Chat>): Promise<void>;
+  saveChatSummaries(summaries: Map<string, ChatSummary>): Promise<void>;
+  // Also drops the chat's messages, participants, message watermarks and
+  // unsent writes
+  deleteChat(chatId: string): Promise<void>;
+
+  // Profiles
+  saveProfile(profile: Profile): Promise<void>;
+  saveProfiles(profiles: Profile[]): Promise<void>;
+  getProfile(profileId: string): Promise<Profile | null>;
+
+  // Participants
+  saveChatParticipant(participant: ChatParticipantRecord): Promise<void>;
+  getChatParticipants(chatId: string): Promise<ChatParticipantRecord[]>;
+
+  // Sync status, one watermark per entity type and scope
+  getSyncStatus(type: SyncEntityType, scope?: string): Promise<SyncStatus | null>;
+  getSyncStatusesByType(type: SyncEntityType): Promise<SyncStatus[]>;
+  updateSyncStatus(type: SyncEntityType, scope?: string, lastSyncAt?: string): Promise<void>;
+  deleteSyncStatus(type: SyncEntityType, scope?: string): Promise<void>;
+
+  // Outbox, in `seq` order
+  addOutboxEntry(entry: OutboxEntry): Promise<number>;
+  getOutboxEntries(): Promise<OutboxEntry[]>;
+  getOutboxEntriesForMessage(messageId: string): Promise<OutboxEntry[]>;
+  // Rejects when the entry is not stored
+  updateOutboxEntry(seq: number, updates: Partial<OutboxEntry>): Promise<void>;
+  deleteOutboxEntry(seq: number): Promise<void>;
+
+  // Wipe everything, optionally keeping a user's unsent writes and the
+  // optimistic messages they refer to
+  clearAllData(preserveOutboxForUserId?: string): Promise<void>;
+  getStorageInfo(): Promise<StorageInfo>;
+}
+
+export type { ChatStorage, StorageInfo };
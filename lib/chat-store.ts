@@ -0,0 +1,785 @@
+import { type RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { syncService, MESSAGE_PAGE_SIZE, INBOX_PAGE_SIZE, reduceMessages, withReadReceipt, type MessageChange } from "./sync-service";
+import { matchesChange, compareChatsByActivity, unknownProfile, STORES, type Chat, type ChatSummary, type Message, type Profile } from "./indexeddb";
+import { realtimeManager } from "./realtime-manager";
+import { tabCoordinator } from "./tab-coordinator";
+import { cacheBudget } from "./cache-budget";
+import { Database } from "./database.types";
+
+// The one copy of chat data the UI renders from. Every component reads it
+// through selectors, so the sidebar, the open chat and anything else always
+// agree; the sync layer and the IndexedDB cache feed it.
+
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
+
+type StoredChat = Omit<Chat, "chat_participants">;
+
+interface StoredParticipant {
+  user_id: string;
+  role?: string;
+}
+
+// Messages are kept without their sender's profile, which lives in `profiles`
+type StoredMessage = Omit<Message, "profiles">;
+
+interface ChatMessagesState {
+  // Message IDs in view, oldest first
+  ids: string[];
+  hasMore: boolean;
+  loading: boolean;
+  loadingOlder: boolean;
+  error: string | null;
+}
+
+interface ChatStoreState {
+  userId: string | null;
+  chats: Record<string, StoredChat>;
+  // Chat IDs in inbox order, newest activity first
+  chatOrder: string[];
+  participants: Record<string, StoredParticipant[]>;
+  profiles: Record<string, Profile>;
+  messages: Record<string, StoredMessage>;
+  messagesByChat: Record<string, ChatMessagesState>;
+  chatsLoaded: boolean;
+  loadingChats: boolean;
+  hasMoreChats: boolean;
+  loadingMoreChats: boolean;
+  syncing: boolean;
+  lastSync?: string;
+  error: string | null;
+}
+
+const INITIAL_STATE: ChatStoreState = {
+  userId: null,
+  chats: {},
+  chatOrder: [],
+  participants: {},
+  profiles: {},
+  messages: {},
+  messagesByChat: {},
+  chatsLoaded: false,
+  loadingChats: false,
+  hasMoreChats: false,
+  loadingMoreChats: false,
+  syncing: false,
+  error: null,
+};
+
+// A chat nobody has loaded yet is about to be
+const UNLOADED_MESSAGES: ChatMessagesState = {
+  ids: [],
+  hasMore: false,
+  loading: true,
+  loadingOlder: false,
+  error: null,
+};
+
+const NO_MESSAGES: Message[] = [];
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// The cache fills in "Unknown User" for participants whose profile it lacks;
+// such placeholders never replace a real profile
+const isPlaceholderProfile = (profile: Profile) => !profile.created_at;
+
+// Replace the newest page in view while keeping older pages the user has
+// already scrolled through. A short page means it is the whole history.
+function mergeLatestPage(current: StoredMessage[], latestPage: StoredMessage[]): StoredMessage[] {
+  if (latestPage.length < MESSAGE_PAGE_SIZE) return latestPage;
+
+  const oldestInPage = new Date(latestPage[0].created_at).getTime();
+  const pageIds = new Set(latestPage.map(msg => msg.id));
+  const olderMessages = current.filter(
+    msg => !pageIds.has(msg.id) && new Date(msg.created_at).getTime() < oldestInPage
+  );
+
+  return [...olderMessages, ...latestPage];
+}
+
+class ChatStore {
+  private state: ChatStoreState = INITIAL_STATE;
+  private listeners: Set<() => void> = new Set();
+  private attached = false;
+  private chatsPromise: Promise<void> | null = null;
+  // Chats the cache last held; one missing from a later read was removed
+  // from it (left the chat, or removed), not merely not cached yet
+  private cachedChatIds: Set<string> = new Set();
+  // How many mounted views show each chat
+  private chatViewers: Map<string, number> = new Map();
+  private autoSyncIntervals: Map<symbol, number> = new Map();
+  private autoSyncTimer: ReturnType<typeof setInterval> | null = null;
+  private autoSyncEvery = 0;
+
+  getState(): ChatStoreState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.attach();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(update: (state: ChatStoreState) => Partial<ChatStoreState>): void {
+    this.state = { ...this.state, ...update(this.state) };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private setChatMessagesState(chatId: string, update: Partial<ChatMessagesState>): void {
+    this.setState((state) => ({
+      messagesByChat: {
+        ...state.messagesByChat,
+        [chatId]: { ...(state.messagesByChat[chatId] || UNLOADED_MESSAGES), ...update },
+      },
+    }));
+  }
+
+  // Replace a chat's messages in view, moving sender profiles into `profiles`
+  private setChatMessages(
+    chatId: string,
+    update: (current: StoredMessage[]) => StoredMessage[],
+    patch: Partial<ChatMessagesState> = {}
+  ): void {
+    this.setState((state) => {
+      const current = (state.messagesByChat[chatId]?.ids || []).map((id) => state.messages[id]);
+      const next = update(current);
+      const messages = { ...state.messages };
+      const profiles = { ...state.profiles };
+
+      current.forEach((message) => {
+        delete messages[message.id];
+      });
+      next.forEach((message) => {
+        const { profiles: profile, ...stored } = message as Message;
+        if (profile) profiles[profile.id] = profile;
+        messages[stored.id] = stored;
+      });
+
+      return {
+        messages,
+        profiles,
+        messagesByChat: {
+          ...state.messagesByChat,
+          [chatId]: {
+            ...(state.messagesByChat[chatId] || UNLOADED_MESSAGES),
+            ...patch,
+            ids: next.map((message) => message.id),
+          },
+        },
+      };
+    });
+  }
+
+  // Replace the chat list (or merge a page into it, dropping `removedChatIds`)
+  private setChats(
+    chats: Chat[],
+    merge: boolean,
+    patch: Partial<ChatStoreState> = {},
+    removedChatIds: string[] = []
+  ): void {
+    this.setState((state) => {
+      const storedChats: Record<string, StoredChat> = merge ? { ...state.chats } : {};
+      const participants = merge ? { ...state.participants } : {};
+      const profiles = { ...state.profiles };
+
+      removedChatIds.forEach((chatId) => {
+        delete storedChats[chatId];
+        delete participants[chatId];
+      });
+
+      chats.forEach(({ chat_participants, ...chat }) => {
+        storedChats[chat.id] = chat;
+        if (!chat_participants) return;
+
+        participants[chat.id] = chat_participants.map(({ user_id, role }) => ({ user_id, role }));
+        chat_participants.forEach(({ user_id, profiles: profile }) => {
+          if (profile && (!isPlaceholderProfile(profile) || !profiles[user_id])) {
+            profiles[user_id] = profile;
+          }
+        });
+      });
+
+      // Chats without membership in the new list keep what we already knew
+      if (!merge) {
+        Object.keys(storedChats).forEach((chatId) => {
+          if (!participants[chatId] && state.participants[chatId]) {
+            participants[chatId] = state.participants[chatId];
+          }
+        });
+      }
+
+      const chatOrder = Object.values(storedChats)
+        .sort((a, b) => compareChatsByActivity(a as Chat, b as Chat))
+        .map((chat) => chat.id);
+
+      return { chats: storedChats, participants, profiles, chatOrder, ...patch };
+    });
+  }
+
+  // Follow the sync layer and the cache; attached once, on first subscribe
+  private attach(): void {
+    if (this.attached || typeof window === "undefined") return;
+    this.attached = true;
+
+    // Sends, edits and deletes made anywhere in the app, or in another tab
+    syncService.onMessageChange((chatId, change) => {
+      this.applyMessageChange(change, chatId);
+    });
+
+    // Unread counts and previews without reloading the chat list
+    syncService.onChatSummaryChange((chatId, summary) => {
+      this.applyChatSummary(chatId, summary);
+    });
+
+    // Messages a sync in this or another tab wrote to the cache
+    syncService.onCacheChange((change) => {
+      if (this.state.messagesByChat[change.chatId]) {
+        this.reloadLatestMessages(change.chatId);
+      }
+    });
+
+    // Server IDs and failures once queued writes are replayed
+    syncService.onOutboxFlushed(() => {
+      this.chatViewers.forEach((_, chatId) => this.reloadLatestMessages(chatId));
+    });
+
+    // Any write to the cached chat list, from any module or tab
+    const chatStores = [STORES.CHATS, STORES.CHAT_PARTICIPANTS, STORES.PROFILES];
+    syncService.onStorageChange((changes) => {
+      if (!this.state.chatsLoaded) return;
+      if (changes.some((change) => chatStores.some((store) => matchesChange({ store }, change)))) {
+        this.reloadChatsFromCache();
+      }
+    });
+  }
+
+  // Start over when a different user signs in
+  setUser(userId: string | null): void {
+    if (this.state.userId === userId) return;
+
+    this.chatsPromise = null;
+    this.cachedChatIds = new Set();
+    this.state = { ...INITIAL_STATE, userId };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Load the chat list once; later updates arrive through the cache
+  ensureChats(userId: string): Promise<void> {
+    this.setUser(userId);
+    if (!this.chatsPromise) {
+      this.chatsPromise = this.loadChats(userId);
+    }
+    return this.chatsPromise;
+  }
+
+  async loadChats(userId: string): Promise<void> {
+    try {
+      this.setState(() => ({ loadingChats: true, error: null }));
+
+      const chats = await syncService.getChats(userId);
+      if (this.state.userId !== userId) return;
+
+      // getChats caches what it fetches
+      this.cachedChatIds = new Set(chats.map((chat) => chat.id));
+      // A short list means the whole inbox is already here
+      this.setChats(chats, false, {
+        chatsLoaded: true,
+        hasMoreChats: chats.length >= INBOX_PAGE_SIZE,
+        loadingChats: false,
+      });
+    } catch (error) {
+      console.error("Error loading chats:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to load chats"), loadingChats: false }));
+    }
+  }
+
+  async refreshFreshChats(userId: string): Promise<void> {
+    try {
+      this.setState(() => ({ error: null }));
+
+      const chats = await syncService.getFreshChats(userId);
+      if (this.state.userId !== userId) return;
+
+      this.cachedChatIds = new Set(chats.map((chat) => chat.id));
+      this.setChats(chats, false, { chatsLoaded: true });
+    } catch (error) {
+      console.error("Error refreshing fresh chats:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to refresh chats") }));
+    }
+  }
+
+  // Load the page of the inbox after the last chat in view
+  async loadMoreChats(): Promise<void> {
+    const { loadingMoreChats, hasMoreChats, chatOrder, chats } = this.state;
+    if (loadingMoreChats || !hasMoreChats) return;
+
+    const lastChat = chats[chatOrder[chatOrder.length - 1]];
+    if (!lastChat) return;
+
+    try {
+      this.setState(() => ({ loadingMoreChats: true }));
+
+      const { chats: moreChats, hasMore } = await syncService.getInboxPage({
+        lastMessageAt: lastChat.last_message_at,
+        id: lastChat.id,
+      });
+
+      this.setChats(moreChats, true, { hasMoreChats: hasMore, loadingMoreChats: false });
+    } catch (error) {
+      console.error("Error loading more chats:", error);
+      this.setState(() => ({
+        loadingMoreChats: false,
+        error: errorMessage(error, "Failed to load more chats"),
+      }));
+    }
+  }
+
+  private async reloadChatsFromCache(): Promise<void> {
+    try {
+      const chats = await syncService.getCachedChats();
+      const cachedIds = new Set(chats.map((chat) => chat.id));
+      // Chats the cache dropped leave the list; pages loaded straight from
+      // the server stay in view until cached
+      const removedIds = Array.from(this.cachedChatIds).filter((chatId) => !cachedIds.has(chatId));
+      this.cachedChatIds = cachedIds;
+      this.setChats(chats, true, {}, removedIds);
+    } catch (error) {
+      console.error("Error reloading chats after cache change:", error);
+    }
+  }
+
+  private applyChatSummary(chatId: string, summary: ChatSummary): void {
+    const chat = this.state.chats[chatId];
+    if (!chat) return;
+
+    const lastMessageAt = summary.last_message?.created_at;
+    const isNewer = !!lastMessageAt
+      && (!chat.last_message_at || new Date(lastMessageAt).getTime() > new Date(chat.last_message_at).getTime());
+
+    this.setChats(
+      [{ ...chat, summary, last_message_at: isNewer ? lastMessageAt : chat.last_message_at }],
+      true
+    );
+  }
+
+  // A view of a chat is mounted; its messages are loaded (or refreshed) and
+  // kept in the auto sync until the returned release function runs
+  openChat(chatId: string): () => void {
+    this.chatViewers.set(chatId, (this.chatViewers.get(chatId) || 0) + 1);
+    // Recently opened chats are the last to be trimmed from the cache
+    cacheBudget.recordChatOpened(chatId).catch((error) => {
+      console.warn("Failed to record chat open:", error);
+    });
+
+    const loaded = this.state.messagesByChat[chatId];
+    if (loaded && !loaded.loading) {
+      this.reloadLatestMessages(chatId);
+    } else {
+      this.loadMessages(chatId);
+    }
+
+    return () => {
+      const viewers = (this.chatViewers.get(chatId) || 1) - 1;
+      if (viewers > 0) {
+        this.chatViewers.set(chatId, viewers);
+      } else {
+        this.chatViewers.delete(chatId);
+      }
+    };
+  }
+
+  async loadMessages(chatId: string): Promise<void> {
+    try {
+      this.setChatMessagesState(chatId, { loading: true, error: null });
+
+      const { messages, hasMore } = await syncService.getMessagesPage(chatId, null);
+
+      this.setChatMessages(chatId, () => messages, { hasMore, loading: false });
+    } catch (error) {
+      console.error("Error loading messages:", error);
+      this.setChatMessagesState(chatId, {
+        error: errorMessage(error, "Failed to load messages"),
+        loading: false,
+      });
+    }
+  }
+
+  // Load the page of history before the oldest message in view
+  async loadOlderMessages(chatId: string): Promise<void> {
+    const chatState = this.state.messagesByChat[chatId];
+    if (!chatState || chatState.loadingOlder || !chatState.hasMore) return;
+
+    const oldestMessage = this.state.messages[chatState.ids[0]];
+    if (!oldestMessage) return;
+
+    try {
+      this.setChatMessagesState(chatId, { loadingOlder: true });
+
+      const { messages: olderMessages, hasMore } = await syncService.getMessagesPage(
+        chatId,
+        oldestMessage.created_at
+      );
+
+      this.setChatMessages(chatId, (current) => {
+        const knownIds = new Set(current.map(msg => msg.id));
+        return [...olderMessages.filter(msg => !knownIds.has(msg.id)), ...current];
+      }, { hasMore, loadingOlder: false });
+    } catch (error) {
+      console.error("Error loading older messages:", error);
+      this.setChatMessagesState(chatId, {
+        loadingOlder: false,
+        error: errorMessage(error, "Failed to load older messages"),
+      });
+    }
+  }
+
+  // Re-read the newest page from the cache, keeping older pages in view
+  async reloadLatestMessages(chatId: string): Promise<void> {
+    try {
+      const messages = await syncService.getMessages(chatId);
+      this.setChatMessages(chatId, (current) => mergeLatestPage(current, messages), { loading: false });
+    } catch (error) {
+      console.error("Error reloading latest messages:", error);
+    }
+  }
+
+  // Refresh messages with fresh data from Supabase
+  async refreshFreshMessages(chatId: string): Promise<void> {
+    try {
+      this.setChatMessagesState(chatId, { error: null });
+
+      const messages = await syncService.getFreshMessages(chatId);
+      this.setChatMessages(chatId, (current) => mergeLatestPage(current, messages), { loading: false });
+    } catch (error) {
+      console.error("Error refreshing fresh messages:", error);
+      this.setChatMessagesState(chatId, {
+        error: errorMessage(error, "Failed to refresh messages"),
+        loading: false,
+      });
+    }
+  }
+
+  // Deletes don't say which chat they belong to, so look the message up
+  private applyMessageChange(change: MessageChange, chatId?: string): void {
+    const targetChatId = chatId
+      || (change.type === "upsert" ? change.message.chat_id : this.state.messages[change.messageId]?.chat_id);
+    if (!targetChatId || !this.state.messagesByChat[targetChatId]) return;
+
+    this.setChatMessages(targetChatId, (current) => reduceMessages(current as Message[], change));
+  }
+
+  // Apply a single realtime change without refetching the chat
+  async applyRealtimeChange(
+    payload: RealtimePostgresChangesPayload<MessageRow>
+  ): Promise<void> {
+    try {
+      const change = await syncService.applyRealtimeChange(payload);
+      if (change) {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as Partial<MessageRow>;
+        this.applyMessageChange(change, row.chat_id);
+      }
+    } catch (error) {
+      console.error("Error applying realtime change:", error);
+    }
+  }
+
+  // Show another participant's read receipt as it arrives
+  async applyReadReceipt(
+    payload: RealtimePostgresChangesPayload<Database["public"]["Tables"]["message_reads"]["Row"]>
+  ): Promise<void> {
+    try {
+      const change = await syncService.applyReadReceipt(payload);
+      if (change) {
+        this.applyMessageChange(change);
+      }
+    } catch (error) {
+      console.error("Error applying read receipt:", error);
+    }
+  }
+
+  async sendMessage(chatId: string, userId: string, content: string, type: string = 'text'): Promise<Message | null> {
+    try {
+      // The optimistic message reaches the store through syncService.onMessageChange
+      return await syncService.addMessageOptimistically({
+        chat_id: chatId,
+        user_id: userId,
+        content: content.trim(),
+        type,
+        is_read: false,
+        read_at: null,
+      });
+    } catch (error) {
+      console.error("Error sending message:", error);
+      this.setChatMessagesState(chatId, { error: errorMessage(error, "Failed to send message") });
+      return null;
+    }
+  }
+
+  async markMessagesAsRead(messageIds: string[], userId: string): Promise<void> {
+    try {
+      const read = await syncService.markMessagesAsRead(messageIds, userId);
+      if (!read) return;
+
+      // Reflect this user's receipts right away; unread counts follow
+      // through syncService.onChatSummaryChange
+      const ids = new Set(messageIds);
+      this.setState((state) => {
+        const messages = { ...state.messages };
+        ids.forEach((id) => {
+          if (messages[id]) messages[id] = withReadReceipt(messages[id] as Message, read);
+        });
+        return { messages };
+      });
+    } catch (error) {
+      console.error("Error marking messages as read:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to mark messages as read") }));
+    }
+  }
+
+  async updateMessage(messageId: string, newContent: string): Promise<void> {
+    try {
+      const updatedMessage = await syncService.updateMessageOptimistically(messageId, newContent.trim());
+
+      this.setState((state) => {
+        const existing = state.messages[messageId];
+        if (!existing) return {};
+
+        const { profiles: _profile, ...updates } = (updatedMessage || { content: newContent.trim() }) as Partial<Message>;
+        return { messages: { ...state.messages, [messageId]: { ...existing, ...updates } } };
+      });
+    } catch (error) {
+      console.error("Error updating message:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to update message") }));
+    }
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    try {
+      await syncService.deleteMessageOptimistically(messageId);
+      this.applyMessageChange({ type: "delete", messageId });
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to delete message") }));
+    }
+  }
+
+  // Retry a message whose send or edit failed; changes arrive via onMessageChange
+  async retryMessage(messageId: string): Promise<void> {
+    try {
+      await syncService.retryMessage(messageId);
+    } catch (error) {
+      console.error("Error retrying message:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to retry message") }));
+    }
+  }
+
+  // Drop a failed message's queued writes
+  async discardMessage(messageId: string): Promise<void> {
+    try {
+      await syncService.discardMessage(messageId);
+    } catch (error) {
+      console.error("Error discarding message:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to discard message") }));
+    }
+  }
+
+  // Full sync, then reload the chat list and every chat in view
+  async forceSync(userId: string): Promise<void> {
+    try {
+      this.setState(() => ({ syncing: true }));
+
+      const syncResults = await syncService.fullSync(userId);
+
+      await Promise.all([
+        this.loadChats(userId),
+        ...Array.from(this.chatViewers.keys()).map((chatId) => this.loadMessages(chatId)),
+      ]);
+
+      this.setState(() => ({ syncing: false, lastSync: new Date().toISOString(), error: null }));
+      console.log("Sync completed:", syncResults);
+
+      cacheBudget.enforce(this.getActiveChatIds()).catch((error) => {
+        console.warn("Cache eviction failed:", error);
+      });
+    } catch (error) {
+      console.error("Error during sync:", error);
+      this.setState(() => ({ syncing: false, error: errorMessage(error, "Sync failed") }));
+    }
+  }
+
+  async clearCache(userId?: string): Promise<void> {
+    try {
+      await syncService.clearCache(userId);
+      this.setState(() => ({
+        chats: {},
+        chatOrder: [],
+        participants: {},
+        messages: {},
+        messagesByChat: {},
+        lastSync: undefined,
+      }));
+
+      await Promise.all([
+        userId ? this.loadChats(userId) : Promise.resolve(),
+        ...Array.from(this.chatViewers.keys()).map((chatId) => this.loadMessages(chatId)),
+      ]);
+    } catch (error) {
+      console.error("Error clearing cache:", error);
+      this.setState(() => ({ error: errorMessage(error, "Failed to clear cache") }));
+    }
+  }
+
+  // Chats open in this tab or, for the leader, subscribed to on behalf of
+  // any tab
+  getActiveChatIds(): Set<string> {
+    return new Set([...realtimeManager.getActiveChatIds(), ...this.chatViewers.keys()]);
+  }
+
+  // One timer for the whole app, however many views ask for auto sync; it
+  // runs at the shortest interval requested
+  startAutoSync(userId: string, interval: number): () => void {
+    const token = Symbol("auto-sync");
+    this.autoSyncIntervals.set(token, interval);
+    this.restartAutoSync(userId);
+
+    return () => {
+      this.autoSyncIntervals.delete(token);
+      this.restartAutoSync(userId);
+    };
+  }
+
+  private restartAutoSync(userId: string): void {
+    const every = this.autoSyncIntervals.size > 0 ? Math.min(...this.autoSyncIntervals.values()) : 0;
+    if (every === this.autoSyncEvery) return;
+
+    if (this.autoSyncTimer) {
+      clearInterval(this.autoSyncTimer);
+      this.autoSyncTimer = null;
+    }
+    this.autoSyncEvery = every;
+    if (!every) return;
+
+    this.autoSyncTimer = setInterval(async () => {
+      try {
+        // Only the leader tab syncs, on behalf of every tab's open chats;
+        // the others pick the results up from the cache
+        if (this.state.userId !== userId || !tabCoordinator.isLeader()) return;
+
+        await syncService.syncChats(userId);
+        const activeChatIds = this.getActiveChatIds();
+        for (const chatId of activeChatIds) {
+          await syncService.syncMessages(chatId);
+        }
+        await cacheBudget.enforce(activeChatIds).catch((error) => {
+          console.warn("Cache eviction failed:", error);
+        });
+      } catch (error) {
+        console.error("Auto-sync error:", error);
+      }
+    }, every);
+  }
+}
+
+// Selectors. Results are memoized so components re-render only when what
+// they show changed.
+
+let chatListCache: {
+  chats: ChatStoreState["chats"];
+  chatOrder: string[];
+  participants: ChatStoreState["participants"];
+  profiles: ChatStoreState["profiles"];
+  result: Chat[];
+} | null = null;
+
+// The chat list with participants and their profiles, newest activity first
+function selectChats(state: ChatStoreState): Chat[] {
+  if (
+    chatListCache
+    && chatListCache.chats === state.chats
+    && chatListCache.chatOrder === state.chatOrder
+    && chatListCache.participants === state.participants
+    && chatListCache.profiles === state.profiles
+  ) {
+    return chatListCache.result;
+  }
+
+  const result = state.chatOrder.map((chatId) => ({
+    ...state.chats[chatId],
+    chat_participants: (state.participants[chatId] || []).map((participant) => ({
+      ...participant,
+      profiles: state.profiles[participant.user_id] || unknownProfile(participant.user_id),
+    })),
+  }));
+
+  chatListCache = {
+    chats: state.chats,
+    chatOrder: state.chatOrder,
+    participants: state.participants,
+    profiles: state.profiles,
+    result,
+  };
+  return result;
+}
+
+function selectChat(state: ChatStoreState, chatId: string): Chat | null {
+  return selectChats(state).find((chat) => chat.id === chatId) || null;
+}
+
+// Messages with their sender's profile attached; the same objects come back
+// for unchanged messages
+const messageCache = new WeakMap<StoredMessage, { profile: Profile | undefined; message: Message }>();
+const chatMessagesCache = new Map<string, Message[]>();
+
+function selectMessages(state: ChatStoreState, chatId?: string): Message[] {
+  const chatState = chatId ? state.messagesByChat[chatId] : undefined;
+  if (!chatId || !chatState) return NO_MESSAGES;
+
+  const result = chatState.ids.map((id) => {
+    const stored = state.messages[id];
+    const profile = state.profiles[stored.user_id];
+    const cached = messageCache.get(stored);
+    if (cached && cached.profile === profile) return cached.message;
+
+    const message: Message = profile ? { ...stored, profiles: profile } : { ...stored };
+    messageCache.set(stored, { profile, message });
+    return message;
+  });
+
+  const previous = chatMessagesCache.get(chatId);
+  if (previous && previous.length === result.length && previous.every((message, i) => message === result[i])) {
+    return previous;
+  }
+  chatMessagesCache.set(chatId, result);
+  return result;
+}
+
+function selectChatMessagesState(state: ChatStoreState, chatId?: string): ChatMessagesState {
+  return (chatId && state.messagesByChat[chatId]) || UNLOADED_MESSAGES;
+}
+
+const selectLoadingChats = (state: ChatStoreState) => state.loadingChats;
+const selectHasMoreChats = (state: ChatStoreState) => state.hasMoreChats;
+const selectLoadingMoreChats = (state: ChatStoreState) => state.loadingMoreChats;
+const selectSyncing = (state: ChatStoreState) => state.syncing;
+const selectLastSync = (state: ChatStoreState) => state.lastSync;
+const selectError = (state: ChatStoreState) => state.error;
+
+// Export singleton instance
+export const chatStore = new ChatStore();
+
+export {
+  selectChats,
+  selectChat,
+  selectMessages,
+  selectChatMessagesState,
+  selectLoadingChats,
+  selectHasMoreChats,
+  selectLoadingMoreChats,
+  selectSyncing,
+  selectLastSync,
+  selectError,
+};
+export type { ChatStoreState, ChatMessagesState };
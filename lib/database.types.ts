@@ -18,6 +18,7 @@ export interface Database {
           created_by: string
           tags: string[]
           last_message_at: string | null
+          updated_at: string
         }
         Insert: {
           id?: string
@@ -27,6 +28,7 @@ export interface Database {
           created_by: string
           tags?: string[]
           last_message_at?: string | null
+          updated_at?: string
         }
         Update: {
           id?: string
@@ -36,6 +38,7 @@ export interface Database {
           created_by?: string
           tags?: string[]
           last_message_at?: string | null
+          updated_at?: string
         }
       }
       chat_participants: {
@@ -47,6 +50,7 @@ export interface Database {
           role: string
           is_muted: boolean
           is_pinned: boolean
+          updated_at: string
         }
         Insert: {
           id?: string
@@ -56,6 +60,7 @@ export interface Database {
           role?: string
           is_muted?: boolean
           is_pinned?: boolean
+          updated_at?: string
         }
         Update: {
           id?: string
@@ -65,6 +70,7 @@ export interface Database {
           role?: string
           is_muted?: boolean
           is_pinned?: boolean
+          updated_at?: string
         }
       }
       messages: {
@@ -77,6 +83,10 @@ export interface Database {
           is_read: boolean
           read_at: string | null
           type: string
+          updated_at: string
+          deleted_at: string | null
+          client_id: string | null
+          delivered_at: string | null
         }
         Insert: {
           id?: string
@@ -87,6 +97,10 @@ export interface Database {
           is_read?: boolean
           read_at?: string | null
           type?: string
+          updated_at?: string
+          deleted_at?: string | null
+          client_id?: string | null
+          delivered_at?: string | null
         }
         Update: {
           id?: string
@@ -97,6 +111,30 @@ export interface Database {
           is_read?: boolean
           read_at?: string | null
           type?: string
+          updated_at?: string
+          deleted_at?: string | null
+          client_id?: string | null
+          delivered_at?: string | null
+        }
+      }
+      message_reads: {
+        Row: {
+          message_id: string
+          user_id: string
+          chat_id: string
+          read_at: string
+        }
+        Insert: {
+          message_id: string
+          user_id: string
+          chat_id?: string
+          read_at?: string
+        }
+        Update: {
+          message_id?: string
+          user_id?: string
+          chat_id?: string
+          read_at?: string
         }
       }
       profiles: {
@@ -133,7 +171,67 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_chat_summaries: {
+        Args: {
+          chat_ids?: string[]
+        }
+        Returns: {
+          chat_id: string
+          unread_count: number
+          last_message: Json | null
+        }[]
+      }
+      get_inbox: {
+        Args: {
+          inbox_limit?: number
+          cursor_at?: string | null
+          cursor_id?: string | null
+          updated_since?: string | null
+        }
+        Returns: {
+          id: string
+          name: string | null
+          type: string
+          created_at: string
+          created_by: string
+          tags: string[]
+          last_message_at: string | null
+          updated_at: string
+          chat_participants: Json
+          unread_count: number
+          last_message: Json | null
+          server_time: string
+        }[]
+      }
+      mark_chats_delivered: {
+        Args: {
+          chat_ids: string[]
+        }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: {
+          message_ids: string[]
+        }
+        Returns: undefined
+      }
+      search_messages: {
+        Args: {
+          search_terms: string[]
+          chat_filter?: string[] | null
+          sender_filter?: string[] | null
+          attachments_only?: boolean
+          created_before?: string | null
+          created_after?: string | null
+          result_limit?: number
+          before_created_at?: string | null
+          before_id?: string | null
+        }
+        Returns: {
+          message: Json
+          rank: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
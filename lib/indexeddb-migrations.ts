@@ -0,0 +1,246 @@
+import { termFrequencies } from "./message-search";
+
+// Schema history of ChatAppDB, oldest first. Each migration upgrades the
+// previous version in place and carries existing rows over; shipped
+// migrations are never edited, later changes get a new entry.
+//
+// Store and index names are spelled out here rather than taken from
+// indexeddb.ts so a migration keeps describing the schema of its own version.
+
+interface MigrationContext {
+  db: IDBDatabase;
+  // The versionchange transaction every migration runs in
+  transaction: IDBTransaction;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (context: MigrationContext) => void | Promise<void>;
+}
+
+// One completed upgrade, kept in the meta store
+interface MigrationRecord {
+  from: number;
+  to: number;
+  at: string;
+}
+
+interface SchemaLog {
+  id: typeof SCHEMA_LOG_ID;
+  history: MigrationRecord[];
+}
+
+const META_STORE = "meta";
+const SCHEMA_LOG_ID = "schema";
+const MAX_SCHEMA_HISTORY = 20;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create the messages, chats, profiles and sync status stores",
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains("messages")) {
+        const messagesStore = db.createObjectStore("messages", { keyPath: "id" });
+        messagesStore.createIndex("chat_id", "chat_id");
+        messagesStore.createIndex("user_id", "user_id");
+        messagesStore.createIndex("created_at", "created_at");
+        messagesStore.createIndex("is_read", "is_read");
+      }
+
+      if (!db.objectStoreNames.contains("chats")) {
+        const chatsStore = db.createObjectStore("chats", { keyPath: "id" });
+        chatsStore.createIndex("created_by", "created_by");
+        chatsStore.createIndex("last_message_at", "last_message_at");
+        chatsStore.createIndex("type", "type");
+      }
+
+      if (!db.objectStoreNames.contains("profiles")) {
+        const profilesStore = db.createObjectStore("profiles", { keyPath: "id" });
+        profilesStore.createIndex("email", "email", { unique: true });
+      }
+
+      if (!db.objectStoreNames.contains("sync_status")) {
+        const syncStore = db.createObjectStore("sync_status", { keyPath: "id" });
+        syncStore.createIndex("type", "type");
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Key chat participants by chat and user",
+    migrate: async ({ db, transaction }) => {
+      // The key path can't change in place: copy the rows into a new store
+      let rows: Array<{ chat_id?: string; user_id?: string }> = [];
+      if (db.objectStoreNames.contains("chat_participants")) {
+        rows = await requestResult(transaction.objectStore("chat_participants").getAll());
+        db.deleteObjectStore("chat_participants");
+      }
+
+      const participantsStore = db.createObjectStore("chat_participants", { keyPath: ["chat_id", "user_id"] });
+      participantsStore.createIndex("chat_id", "chat_id");
+      participantsStore.createIndex("user_id", "user_id");
+
+      rows
+        .filter((row) => row.chat_id && row.user_id)
+        .forEach((row) => participantsStore.put(row));
+    },
+  },
+  {
+    version: 3,
+    description: "Add the outbox for writes that still have to reach Supabase",
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains("outbox")) {
+        const outboxStore = db.createObjectStore("outbox", { keyPath: "seq", autoIncrement: true });
+        outboxStore.createIndex("message_id", "message_id");
+        outboxStore.createIndex("chat_id", "chat_id");
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Scope sync watermarks by chat or user",
+    migrate: async ({ transaction }) => {
+      const syncStore = transaction.objectStore("sync_status");
+      if (!syncStore.indexNames.contains("scope")) {
+        syncStore.createIndex("scope", "scope");
+      }
+
+      // Rows were keyed by bare type. The global messages and chats cursors
+      // can't be attributed to a chat or user, so those scopes simply start
+      // with a full sync; the profiles cursor carries over.
+      const legacyRows: Array<{ id: string; type: string; scope?: string; lastSyncAt: string }> =
+        await requestResult(syncStore.getAll());
+
+      legacyRows
+        .filter((row) => !row.scope)
+        .forEach((row) => {
+          syncStore.delete(row.id);
+          if (row.type === "profiles") {
+            syncStore.put({
+              id: "profiles:global",
+              type: "profiles",
+              scope: "global",
+              lastSyncAt: row.lastSyncAt,
+              syncedAt: row.lastSyncAt,
+            });
+          }
+        });
+    },
+  },
+  {
+    version: 5,
+    description: "Index messages by chat and time for paging",
+    migrate: ({ transaction }) => {
+      const messagesStore = transaction.objectStore("messages");
+      if (!messagesStore.indexNames.contains("chat_id_created_at")) {
+        messagesStore.createIndex("chat_id_created_at", ["chat_id", "created_at"]);
+      }
+    },
+  },
+  {
+    version: 6,
+    description: "Index messages by client ID to reconcile optimistic sends",
+    migrate: ({ transaction }) => {
+      const messagesStore = transaction.objectStore("messages");
+      if (!messagesStore.indexNames.contains("client_id")) {
+        messagesStore.createIndex("client_id", "client_id");
+      }
+    },
+  },
+  {
+    version: 7,
+    description: "Keep a log of schema upgrades",
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: "id" });
+      }
+    },
+  },
+  {
+    version: 8,
+    description: "Add an inverted index for message search",
+    migrate: async ({ db, transaction }) => {
+      if (db.objectStoreNames.contains("search_index")) return;
+
+      // One row per distinct word of a message; word prefixes are key ranges
+      const indexStore = db.createObjectStore("search_index", { keyPath: ["token", "message_id"] });
+      indexStore.createIndex("message_id", "message_id");
+      indexStore.createIndex("chat_id", "chat_id");
+
+      // Index what is already cached
+      const messages: Array<{ id: string; chat_id: string; content: string; deleted_at?: string | null }> =
+        await requestResult(transaction.objectStore("messages").getAll());
+      messages
+        .filter((message) => !message.deleted_at && typeof message.content === "string")
+        .forEach((message) => {
+          termFrequencies(message.content).forEach((count, token) => {
+            indexStore.put({ token, message_id: message.id, chat_id: message.chat_id, count });
+          });
+        });
+    },
+  },
+  {
+    version: 9,
+    description: "Track when each chat was last opened, for cache eviction",
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains("chat_usage")) {
+        const usageStore = db.createObjectStore("chat_usage", { keyPath: "chat_id" });
+        usageStore.createIndex("last_opened_at", "last_opened_at");
+      }
+    },
+  },
+];
+
+const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Run every migration after `oldVersion` in order, inside the versionchange
+// transaction, and log the upgrade. A rejection means the caller should
+// abort the transaction so the database stays at `oldVersion`.
+async function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number
+): Promise<void> {
+  const pending = MIGRATIONS.filter(
+    (migration) => migration.version > oldVersion && migration.version <= newVersion
+  );
+
+  for (const migration of pending) {
+    console.log(`IndexedDB migration ${migration.version}: ${migration.description}`);
+    try {
+      await migration.migrate({ db, transaction });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${reason}`);
+    }
+  }
+
+  if (db.objectStoreNames.contains(META_STORE)) {
+    const metaStore = transaction.objectStore(META_STORE);
+    const log: SchemaLog | undefined = await requestResult(metaStore.get(SCHEMA_LOG_ID));
+    const history = [
+      ...(log?.history || []),
+      { from: oldVersion, to: newVersion, at: new Date().toISOString() },
+    ].slice(-MAX_SCHEMA_HISTORY);
+    metaStore.put({ id: SCHEMA_LOG_ID, history });
+  }
+}
+
+async function readSchemaHistory(db: IDBDatabase): Promise<MigrationRecord[]> {
+  if (!db.objectStoreNames.contains(META_STORE)) return [];
+
+  const store = db.transaction(META_STORE).objectStore(META_STORE);
+  const log: SchemaLog | undefined = await requestResult(store.get(SCHEMA_LOG_ID));
+  return log?.history || [];
+}
+
+export { MIGRATIONS, LATEST_SCHEMA_VERSION, META_STORE, runMigrations, readSchemaHistory };
+export type { Migration, MigrationRecord };
@@ -1,24 +1,131 @@
 import { Database } from "./database.types";
+import { tabCoordinator } from "./tab-coordinator";
+import { accountRegistry } from "./account-registry";
+import {
+  CacheCipher,
+  isSealed,
+  isCacheEncryptionSupported,
+  createCacheKey,
+  sealedRecordBytes,
+  recordFingerprint,
+  type CacheKeyring,
+} from "./cache-crypto";
+import {
+  tokenize,
+  termFrequencies,
+  queryTerms,
+  buildSnippet,
+  hasSearchFilters,
+  matchesSearchFilters,
+  type Snippet,
+  type MessageSearchFilters,
+} from "./message-search";
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  META_STORE,
+  runMigrations,
+  readSchemaHistory,
+  type MigrationRecord,
+} from "./indexeddb-migrations";
+import type { ChatStorage, StorageInfo } from "./chat-storage";
 
 // Type definitions
 type Message = Database["public"]["Tables"]["messages"]["Row"] & {
   profiles?: Database["public"]["Tables"]["profiles"]["Row"];
+  // Per-reader receipts, embedded like the sender's profile
+  message_reads?: MessageRead[];
+  // Local-only: set while the message still has unsent outbox entries
+  sync_status?: MessageSyncStatus;
+  // Local-only: see deliveryStatusOf
+  delivery_status?: DeliveryStatus;
 };
 
+type MessageRead = Pick<Database["public"]["Tables"]["message_reads"]["Row"], "user_id" | "read_at"> & {
+  profiles?: Pick<Database["public"]["Tables"]["profiles"]["Row"], "full_name" | "avatar_url"> | null;
+};
+
+type MessageSyncStatus = 'pending' | 'failed';
+
+// Where a message is in its lifecycle, as shown by the ticks in the UI
+type DeliveryStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+// Derived from outbox state and the server's delivery/read markers. Stored
+// on every cached message so readers don't have to recompute it.
+function deliveryStatusOf(message: Message): DeliveryStatus {
+  if (message.sync_status === 'failed') return 'failed';
+  if (message.sync_status === 'pending') return 'sending';
+  if (message.is_read || (message.message_reads?.length ?? 0) > 0) return 'read';
+  if (message.delivered_at) return 'delivered';
+  return 'sent';
+}
+
+const withDeliveryStatus = (message: Message): Message => ({
+  ...message,
+  delivery_status: deliveryStatusOf(message),
+});
+
 type Chat = Database["public"]["Tables"]["chats"]["Row"] & {
   chat_participants?: Array<{
     user_id: string;
+    role?: string;
     profiles: Database["public"]["Tables"]["profiles"]["Row"];
   }>;
-  messages?: Array<Database["public"]["Tables"]["messages"]["Row"]>;
+  // Server-computed list preview, see SyncService.refreshChatSummaries
+  summary?: ChatSummary;
 };
 
+// What the chat list shows for a chat without loading its messages
+interface ChatSummary {
+  // Messages from other users the current user has no read receipt for
+  unread_count: number;
+  last_message: Message | null;
+}
+
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 
-// IndexedDB schema version
-const DB_VERSION = 2;
+// Stands in for a participant whose profile is not cached
+const unknownProfile = (userId: string): Profile => ({
+  id: userId,
+  email: '',
+  full_name: 'Unknown User',
+  avatar_url: null,
+  phone_number: null,
+  created_at: '',
+  last_seen: null
+});
+
+// Chat list order, newest activity first. Matches the server's inbox order
+// so pages loaded later line up with what is cached.
+function compareChatsByActivity(a: Chat, b: Chat): number {
+  const aTime = a.last_message_at ? new Date(a.last_message_at).getTime() : -Infinity;
+  const bTime = b.last_message_at ? new Date(b.last_message_at).getTime() : -Infinity;
+  if (aTime !== bTime) return bTime > aTime ? 1 : -1;
+  if (a.id === b.id) return 0;
+  return b.id > a.id ? 1 : -1;
+}
+
+// IndexedDB schema version, see lib/indexeddb-migrations.ts
+const DB_VERSION = LATEST_SCHEMA_VERSION;
+// Every account gets its own database, named after this prefix and the user
+// ID. The bare prefix is the single shared database of earlier versions.
 const DB_NAME = "ChatAppDB";
 
+const databaseNameFor = (userId: string) => `${DB_NAME}:${userId}`;
+
+// How the last open went: `recovered` means a failed migration was replaced
+// by a rebuilt cache, `blocked` that another tab holds the old version open
+type SchemaStatus = 'ok' | 'upgrading' | 'blocked' | 'failed' | 'recovered';
+
+interface SchemaInfo {
+  version: number;
+  latestVersion: number;
+  status: SchemaStatus;
+  error: string | null;
+  history: MigrationRecord[];
+  migrations: Array<{ version: number; description: string }>;
+}
+
 // Object store names
 const STORES = {
   MESSAGES: "messages",
@@ -26,17 +133,308 @@ const STORES = {
   PROFILES: "profiles",
   CHAT_PARTICIPANTS: "chat_participants",
   SYNC_STATUS: "sync_status",
+  OUTBOX: "outbox",
+  SEARCH_INDEX: "search_index",
+  CHAT_USAGE: "chat_usage",
 } as const;
 
+// `message_history` is a per-chat floor rather than a cursor: every message
+// from that timestamp up to the newest one is known to be cached.
+type SyncEntityType = 'messages' | 'message_history' | 'chats' | 'profiles';
+
+// Scope for entities that are not partitioned (e.g. profiles)
+const GLOBAL_SYNC_SCOPE = "global";
+
+// History floor meaning the whole chat, back to its first message, is cached
+const HISTORY_START = "";
+
+// One watermark per entity type and scope: messages are scoped by chat ID and
+// chats by user ID, so syncing one chat never advances another chat's cursor.
 interface SyncStatus {
   id: string;
+  type: SyncEntityType;
+  scope: string;
+  // Watermark: newest server timestamp already pulled into the cache
   lastSyncAt: string;
-  type: 'messages' | 'chats' | 'profiles';
+  // Wall-clock time of the sync that set the watermark
+  syncedAt: string;
 }
 
-class IndexedDBService {
+const syncStatusId = (type: SyncEntityType, scope: string) => `${type}:${scope}`;
+
+// A chat membership as stored; profiles are kept in their own store
+interface ChatParticipantRecord {
+  chat_id: string;
+  user_id: string;
+  role: string;
+}
+
+// Every participant key of a chat: [chatId, userId] sorts between [chatId]
+// and [chatId, []] because arrays sort after strings
+const chatParticipantsRange = (chatId: string) =>
+  IDBKeyRange.bound([chatId], [chatId, []]);
+
+// A file waiting to be uploaded before its attachment message is inserted.
+// Blobs are stored as-is, so queued attachments survive a reload.
+interface OutboxAttachment {
+  file: Blob;
+  fileName: string;
+  originalSize: number;
+}
+
+// A local write that has not reached Supabase yet. Entries are replayed in
+// `seq` order, so a send is always flushed before later edits or deletes.
+interface OutboxEntry {
+  seq?: number;
+  kind: 'send' | 'edit' | 'delete';
+  message_id: string;
+  chat_id: string;
+  user_id: string;
+  payload: {
+    content?: string;
+    type?: string;
+    // Idempotency key of a send, reused on every retry
+    client_id?: string;
+    attachment?: OutboxAttachment;
+  };
+  status: 'pending' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+}
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// A committed write. `keys` are the primary keys written and `chatIds` the
+// chats they belong to; either is left out when it isn't known, which makes
+// the change match every key or chat of the store (e.g. a wipe).
+interface DBChange {
+  store: StoreName;
+  keys?: IDBValidKey[];
+  chatIds?: string[];
+}
+
+// What a live query reads; `key` and `chatId` narrow it to one row or chat
+interface DBChangeFilter {
+  store: StoreName;
+  key?: IDBValidKey;
+  chatId?: string;
+}
+
+function matchesChange(filter: DBChangeFilter, change: DBChange): boolean {
+  if (filter.store !== change.store) return false;
+  if (filter.chatId !== undefined && change.chatIds && !change.chatIds.includes(filter.chatId)) {
+    return false;
+  }
+  if (filter.key !== undefined && change.keys
+    && !change.keys.some((key) => indexedDB.cmp(key, filter.key!) === 0)) {
+    return false;
+  }
+  return true;
+}
+
+// One word of one message in the search index
+interface SearchIndexRow {
+  // Folded word, see lib/message-search
+  token: string;
+  message_id: string;
+  chat_id: string;
+  // Occurrences of the word in the message
+  count: number;
+}
+
+// A range of the search index read for one query term, and how much each
+// row found there counts
+interface SearchLookup {
+  range: IDBKeyRange;
+  weight: (row: SearchIndexRow) => number;
+}
+
+interface MessageSearchResult {
+  message: Message;
+  score: number;
+  snippet: Snippet;
+}
+
+// When a chat was last opened; chats opened least recently are trimmed
+// first when the cache is over budget
+interface ChatUsage {
+  chat_id: string;
+  last_opened_at: string;
+}
+
+// What a chat's cached messages take up
+interface ChatStorageSize {
+  chat_id: string;
+  message_count: number;
+  // Serialized size of the messages, a close estimate of their share of disk
+  bytes: number;
+  last_opened_at: string | null;
+}
+
+interface StorageSettings {
+  // Upper bound for the estimated size of all cached messages
+  budgetBytes: number;
+}
+
+const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+  budgetBytes: 50 * 1024 * 1024,
+};
+// Kept in the meta store, so clearing the cache keeps the settings
+const STORAGE_SETTINGS_ID = "storage_settings";
+
+// Whether the signed-in user's cache is encrypted, for the storage manager
+interface CacheEncryptionInfo {
+  supported: boolean;
+  enabled: boolean;
+  keyCreatedAt: string | null;
+  // Records are being re-sealed after encryption was turned on or off, or
+  // the key was rotated
+  rewriting: boolean;
+}
+
+// What encryption hides of each kind of record. Keys, chat IDs, timestamps
+// and flags stay readable: indexes, merges and delivery status need them.
+// Readers' profiles in `message_reads` and the text and files of queued
+// writes are sealed too, see sealRecord.
+const SEALED_FIELDS = {
+  [STORES.MESSAGES]: ["content", "profiles"],
+  [STORES.CHATS]: ["name", "chat_participants", "summary"],
+  [STORES.PROFILES]: ["full_name", "email", "avatar_url", "phone_number"],
+  [STORES.OUTBOX]: [],
+} as const;
+
+type SealedStore = keyof typeof SEALED_FIELDS;
+
+// The nested parts of a record that sealRecord seals beyond SEALED_FIELDS
+interface NestedSealedFields {
+  message_reads?: MessageRead[];
+  payload?: { content?: unknown; attachment?: { file?: unknown } };
+}
+
+// Encrypted caches index words as search tokens, which only match whole
+// strings; prefixes of these lengths are indexed as tokens of their own.
+// Longer query terms look up their first SEARCH_PREFIX_MAX characters and
+// are checked against the decrypted text.
+const SEARCH_PREFIX_MIN = 2;
+const SEARCH_PREFIX_MAX = 8;
+
+// Records re-sealed per transaction when the key changes
+const REWRITE_BATCH_SIZE = 200;
+// Records written by the app during a rewrite are retried this many times
+const MAX_REWRITE_PASSES = 3;
+
+const SEARCH_RESULT_LIMIT = 50;
+// Ranking reads at most this many of the best-scoring messages
+const MAX_SEARCH_CANDIDATES = 500;
+// A word that only starts with the query term counts half
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Other tabs write to the same database, so their changes are relayed too
+const DB_CHANGE_TOPIC = "db:changes";
+
+interface DBChangeBroadcast {
+  database: string;
+  changes: DBChange[];
+}
+
+// Encryption was turned on or off or its key rotated; tabs reload the keys
+const DB_KEYS_TOPIC = "db:keys";
+
+class IndexedDBService implements ChatStorage {
   private db: IDBDatabase | null = null;
   private dbPromise: Promise<IDBDatabase> | null = null;
+  // The signed-in user's database; null until one is selected
+  private dbName: string | null = null;
+  private userId: string | null = null;
+  // The user's keys, when their cache is encrypted
+  private cipher: CacheCipher | null = null;
+  private rewritePromise: Promise<void> | null = null;
+  private schemaStatus: SchemaStatus = 'ok';
+  private schemaError: string | null = null;
+  private changeListeners: Set<(changes: DBChange[]) => void> = new Set();
+  private pendingChanges: DBChange[] = [];
+  private tabsAttached = false;
+
+  // Called with every batch of writes, from this tab or another one
+  onChange(listener: (changes: DBChange[]) => void): () => void {
+    this.attachTabs();
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private attachTabs(): void {
+    if (this.tabsAttached || typeof window === "undefined") return;
+    this.tabsAttached = true;
+
+    // Tabs signed in as someone else write to another database
+    tabCoordinator.subscribe<DBChangeBroadcast>(DB_CHANGE_TOPIC, ({ database, changes }) => {
+      if (database === this.dbName) this.emitChanges(changes);
+    });
+
+    tabCoordinator.subscribe<{ database: string }>(DB_KEYS_TOPIC, ({ database }) => {
+      if (database === this.dbName && this.userId) {
+        this.loadCipher(this.userId).catch((error) => {
+          console.error("Error reloading cache encryption keys:", error);
+        });
+      }
+    });
+  }
+
+  // Writes made in the same tick are delivered as one batch
+  private notify(change: DBChange): void {
+    this.pendingChanges.push(change);
+    if (this.pendingChanges.length > 1) return;
+
+    queueMicrotask(() => {
+      const changes = this.pendingChanges;
+      this.pendingChanges = [];
+      this.emitChanges(changes);
+      if (this.dbName) {
+        tabCoordinator.publish<DBChangeBroadcast>(DB_CHANGE_TOPIC, { database: this.dbName, changes });
+      }
+    });
+  }
+
+  private emitChanges(changes: DBChange[]): void {
+    this.changeListeners.forEach((listener) => {
+      try {
+        listener(changes);
+      } catch (error) {
+        console.error("IndexedDB change listener failed:", error);
+      }
+    });
+  }
+
+  // Switch to a user's own database, or to none when signed out. Reads and
+  // writes made while no user is selected fail, so a write left over from
+  // one account can never land in the next one's database.
+  selectUser(userId: string | null): void {
+    const name = userId ? databaseNameFor(userId) : null;
+    if (name === this.dbName) return;
+
+    console.log(`IndexedDB: switching to ${name ?? "no database"}`);
+    this.close();
+    this.dbPromise = null;
+    this.dbName = name;
+    this.userId = userId;
+    this.cipher = null;
+    this.schemaStatus = 'ok';
+    this.schemaError = null;
+
+    // Everything cached is different now; live queries read it again
+    if (name) {
+      this.emitChanges(Object.values(STORES).map((store) => ({ store })));
+    }
+  }
 
   private async initDB(): Promise<IDBDatabase> {
     if (this.db) return this.db;
@@ -47,63 +445,573 @@ class IndexedDBService {
       throw new Error('IndexedDB is not available in this environment');
     }
 
-    this.dbPromise = new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+    if (!this.dbName) {
+      throw new Error('No user is signed in; the local cache is closed');
+    }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve(request.result);
-      };
+    // Keys come first: nothing may be read or written without them. A
+    // failed open is retried on the next access.
+    const [name, userId] = [this.dbName, this.userId!];
+    const promise: Promise<IDBDatabase> = this.loadCipher(userId)
+      .then(() => this.openWithRecovery(name))
+      .then((db) => {
+        // Finish a rewrite the last session didn't get to complete
+        if (this.cipher?.keyring.rewriting) {
+          this.rewriteCache().catch((error) => console.error("Error re-encrypting the local cache:", error));
+        }
+        return db;
+      })
+      .catch((error) => {
+        if (this.dbPromise === promise) this.dbPromise = null;
+        throw error;
+      });
+    this.dbPromise = promise;
+
+    return promise;
+  }
+
+  // Open at DB_VERSION, running pending migrations. If one fails the upgrade
+  // is rolled back, and the cache is rebuilt from scratch with unsent writes
+  // carried over; everything else is re-synced from the server.
+  private async openWithRecovery(name: string): Promise<IDBDatabase> {
+    try {
+      return await this.openDatabase(name, DB_VERSION);
+    } catch (error) {
+      if ((error as DOMException)?.name === "VersionError") {
+        // A newer version of the app upgraded the database; use it as is
+        console.warn("IndexedDB schema is newer than this app, opening it at its own version");
+        return this.openDatabase(name);
+      }
+      if (this.schemaStatus !== 'failed') throw error;
+
+      console.error("IndexedDB migration failed, rebuilding the local cache:", error);
+      const { entries, messages } = await this.salvageOutbox(name);
+      await this.deleteDatabase(name);
+
+      const db = await this.openDatabase(name, DB_VERSION);
+      await this.restoreOutbox(db, entries, messages);
+      this.schemaStatus = 'recovered';
+      return db;
+    }
+  }
+
+  private openDatabase(name: string, version?: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = version ? indexedDB.open(name, version) : indexedDB.open(name);
+      let migrationError: unknown = null;
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const oldVersion = (event as IDBVersionChangeEvent).oldVersion;
-
-        // Messages store
-        if (!db.objectStoreNames.contains(STORES.MESSAGES)) {
-          const messagesStore = db.createObjectStore(STORES.MESSAGES, { keyPath: "id" });
-          messagesStore.createIndex("chat_id", "chat_id");
-          messagesStore.createIndex("user_id", "user_id");
-          messagesStore.createIndex("created_at", "created_at");
-          messagesStore.createIndex("is_read", "is_read");
+        const transaction = request.transaction!;
+        this.schemaStatus = 'upgrading';
+
+        runMigrations(request.result, transaction, event.oldVersion, event.newVersion ?? DB_VERSION)
+          .catch((error) => {
+            migrationError = error;
+            transaction.abort();
+          });
+      };
+
+      // Another tab still has the old version open and hasn't let go yet
+      request.onblocked = () => {
+        console.warn("IndexedDB upgrade is blocked by another open tab");
+        this.schemaStatus = 'blocked';
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // The user signed out or switched accounts while this was opening
+        if (name !== this.dbName) {
+          db.close();
+          reject(new Error(`IndexedDB ${name} was deselected while opening`));
+          return;
         }
+        this.watchConnection(db);
+        this.db = db;
+        // After a failed migration the error is kept to explain the rebuild
+        if (this.schemaStatus !== 'failed') {
+          this.schemaStatus = 'ok';
+          this.schemaError = null;
+        }
+        resolve(db);
+      };
 
-        // Chats store
-        if (!db.objectStoreNames.contains(STORES.CHATS)) {
-          const chatsStore = db.createObjectStore(STORES.CHATS, { keyPath: "id" });
-          chatsStore.createIndex("created_by", "created_by");
-          chatsStore.createIndex("last_message_at", "last_message_at");
-          chatsStore.createIndex("type", "type");
+      request.onerror = () => {
+        if (migrationError) {
+          this.schemaStatus = 'failed';
+          this.schemaError = migrationError instanceof Error ? migrationError.message : String(migrationError);
+          reject(migrationError);
+        } else {
+          reject(request.error);
         }
+      };
+    });
+  }
+
+  // Step aside when another tab upgrades the schema; the next access
+  // reopens at whatever version is current
+  private watchConnection(db: IDBDatabase): void {
+    const forget = () => {
+      if (this.db === db) {
+        this.db = null;
+        this.dbPromise = null;
+      }
+    };
+
+    db.onversionchange = () => {
+      console.log("IndexedDB is being upgraded by another tab, closing this connection");
+      db.close();
+      forget();
+    };
+    db.onclose = forget;
+  }
 
-        // Profiles store
-        if (!db.objectStoreNames.contains(STORES.PROFILES)) {
-          const profilesStore = db.createObjectStore(STORES.PROFILES, { keyPath: "id" });
-          profilesStore.createIndex("email", "email", { unique: true });
+  // Unsent writes and their optimistic messages, read from the database as
+  // it is (at whatever version it is at)
+  private async salvageOutbox(name: string): Promise<{ entries: OutboxEntry[]; messages: Message[] }> {
+    try {
+      const db = await this.openRaw(name);
+      if (!db) return { entries: [], messages: [] };
+      try {
+        if (!db.objectStoreNames.contains(STORES.OUTBOX)) {
+          return { entries: [], messages: [] };
         }
 
-        // Chat participants store - recreate for v2
-        if (oldVersion < 2) {
-          // Delete old store if it exists
-          if (db.objectStoreNames.contains(STORES.CHAT_PARTICIPANTS)) {
-            db.deleteObjectStore(STORES.CHAT_PARTICIPANTS);
+        const storeNames = [STORES.OUTBOX, STORES.MESSAGES].filter((name) => db.objectStoreNames.contains(name));
+        const transaction = db.transaction(storeNames);
+        const entries: OutboxEntry[] = await new Promise((resolve, reject) => {
+          const request = transaction.objectStore(STORES.OUTBOX).getAll();
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        });
+
+        const messages: Message[] = [];
+        if (storeNames.includes(STORES.MESSAGES)) {
+          const messagesStore = transaction.objectStore(STORES.MESSAGES);
+          const sendIds = entries.filter((entry) => entry.kind === 'send').map((entry) => entry.message_id);
+          for (const messageId of sendIds) {
+            const message: Message | undefined = await new Promise((resolve, reject) => {
+              const request = messagesStore.get(messageId);
+              request.onsuccess = () => resolve(request.result);
+              request.onerror = () => reject(request.error);
+            });
+            if (message) messages.push(message);
           }
-          // Create new store with composite key
-          const participantsStore = db.createObjectStore(STORES.CHAT_PARTICIPANTS, { keyPath: ["chat_id", "user_id"] });
-          participantsStore.createIndex("chat_id", "chat_id");
-          participantsStore.createIndex("user_id", "user_id");
         }
 
-        // Sync status store
-        if (!db.objectStoreNames.contains(STORES.SYNC_STATUS)) {
-          const syncStore = db.createObjectStore(STORES.SYNC_STATUS, { keyPath: "id" });
-          syncStore.createIndex("type", "type");
-        }
+        return { entries, messages };
+      } finally {
+        db.close();
+      }
+    } catch (error) {
+      console.warn("Could not salvage the outbox before rebuilding:", error);
+      return { entries: [], messages: [] };
+    }
+  }
+
+  // Open at whatever version the database is at; null if it doesn't exist
+  private openRaw(name: string): Promise<IDBDatabase | null> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(name);
+      let missing = false;
+      // Opening without a version would create it, empty; abort that instead
+      request.onupgradeneeded = () => {
+        missing = true;
+        request.transaction?.abort();
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => (missing ? resolve(null) : reject(request.error));
+    });
+  }
+
+  private deleteDatabase(name: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(name);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn("Deleting IndexedDB is blocked by another open tab");
+    });
+  }
+
+  private restoreOutbox(db: IDBDatabase, entries: OutboxEntry[], messages: Message[]): Promise<void> {
+    if (entries.length === 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.OUTBOX, STORES.MESSAGES], "readwrite");
+      entries.forEach((entry) => transaction.objectStore(STORES.OUTBOX).put(entry));
+      messages.forEach((message) => transaction.objectStore(STORES.MESSAGES).put(message));
+
+      transaction.oncomplete = () => {
+        console.log(`Restored ${entries.length} unsent writes after rebuilding the cache`);
+        resolve();
       };
+      transaction.onerror = () => reject(transaction.error);
     });
+  }
+
+  // Account databases
+  // Move a user's unsent writes out of the shared database of earlier
+  // versions into their own, then delete it. The rest of it is only a cache,
+  // and it can't be told which account it belonged to.
+  async adoptLegacyDatabase(userId: string): Promise<void> {
+    const legacy = await this.openRaw(DB_NAME);
+    if (!legacy) return;
+    legacy.close();
+
+    const { entries, messages } = await this.salvageOutbox(DB_NAME);
+    await this.deleteDatabase(DB_NAME);
 
-    return this.dbPromise;
+    const ownEntries = entries.filter((entry) => entry.user_id === userId);
+    if (ownEntries.length < entries.length) {
+      console.warn(`Dropped ${entries.length - ownEntries.length} unsent writes of other accounts from the shared database`);
+    }
+    if (ownEntries.length === 0) return;
+
+    const ownMessageIds = new Set(ownEntries.map((entry) => entry.message_id));
+    const db = await this.initDB();
+    await this.restoreOutbox(db, ownEntries, messages.filter((message) => ownMessageIds.has(message.id)));
+    this.notify({ store: STORES.OUTBOX });
+    this.notify({ store: STORES.MESSAGES });
+  }
+
+  // Whether a user's database still holds writes that never reached Supabase
+  async hasUnsentWrites(userId: string): Promise<boolean> {
+    const name = databaseNameFor(userId);
+    if (name === this.dbName) {
+      return (await this.getCount(STORES.OUTBOX)) > 0;
+    }
+
+    const db = await this.openRaw(name);
+    if (!db) return false;
+    try {
+      if (!db.objectStoreNames.contains(STORES.OUTBOX)) return false;
+      return (await requestResult(db.transaction(STORES.OUTBOX).objectStore(STORES.OUTBOX).count())) > 0;
+    } finally {
+      db.close();
+    }
+  }
+
+  // Delete a user's database outright. The signed-in user's is recreated,
+  // empty, on the next access.
+  async deleteUserDatabase(userId: string): Promise<void> {
+    const name = databaseNameFor(userId);
+    const isCurrent = name === this.dbName;
+    if (isCurrent) {
+      this.close();
+      this.dbPromise = null;
+    }
+
+    await this.deleteDatabase(name);
+    if (isCurrent) {
+      Object.values(STORES).forEach((store) => this.notify({ store }));
+    }
+  }
+
+  // Encryption
+  // Load the user's keys. An account set to encrypt that has no keys (the
+  // last session wiped them with its cache) gets new ones; anything left in
+  // the cache under the old keys is unreadable and dropped by the rewrite.
+  private async loadCipher(userId: string): Promise<void> {
+    let keyring = await accountRegistry.getKeyring(userId);
+    if (!keyring && isCacheEncryptionSupported() && (await accountRegistry.isEncrypted(userId))) {
+      const key = await createCacheKey();
+      keyring = { user_id: userId, current: key.id, keys: [key], rewriting: true };
+      await accountRegistry.saveKeyring(keyring);
+      console.log("IndexedDB: new cache encryption key for this session");
+    }
+
+    // The user may have changed while the keys loaded
+    if (userId === this.userId) {
+      this.cipher = keyring ? new CacheCipher(keyring) : null;
+    }
+  }
+
+  private sealingCipher(): CacheCipher | null {
+    return this.cipher?.sealing ? this.cipher : null;
+  }
+
+  // Seal what SEALED_FIELDS lists of a record, or of the fields given in a
+  // partial update. Must run before the write's transaction is opened:
+  // WebCrypto is asynchronous, and IndexedDB commits a transaction that has
+  // nothing left to do across an await.
+  private async sealRecord<T extends object>(storeName: SealedStore, record: T): Promise<T> {
+    const cipher = this.sealingCipher();
+    if (!cipher) return record;
+
+    const sealed: NestedSealedFields = await cipher.sealFields(record as NestedSealedFields, SEALED_FIELDS[storeName]);
+    if (storeName === STORES.MESSAGES && sealed.message_reads) {
+      sealed.message_reads = await Promise.all(
+        sealed.message_reads.map((read) => cipher.sealFields(read, ["profiles"]))
+      );
+    }
+    if (storeName === STORES.OUTBOX && sealed.payload) {
+      sealed.payload = await cipher.sealFields(sealed.payload, ["content"]);
+      if (sealed.payload.attachment) {
+        sealed.payload.attachment = await cipher.sealFields(sealed.payload.attachment, ["file"]);
+      }
+    }
+    return sealed as T;
+  }
+
+  // The record as it was before sealing, or null when it can't be opened:
+  // sealed with a key that is gone, or tampered with
+  private async openRecord<T extends object>(storeName: SealedStore, record: T): Promise<T | null> {
+    const fields = SEALED_FIELDS[storeName];
+    const stored = record as NestedSealedFields & Record<string, unknown>;
+
+    if (!this.cipher) {
+      const sealed = fields.some((field) => isSealed(stored[field]))
+        || (stored.message_reads || []).some((read) => isSealed(read.profiles))
+        || isSealed(stored.payload?.content)
+        || isSealed(stored.payload?.attachment?.file);
+      return sealed ? null : record;
+    }
+
+    try {
+      const opened: NestedSealedFields = await this.cipher.openFields(stored, fields);
+      if (storeName === STORES.MESSAGES && opened.message_reads) {
+        opened.message_reads = await Promise.all(
+          opened.message_reads.map((read) => this.cipher!.openFields(read, ["profiles"]))
+        );
+      }
+      if (storeName === STORES.OUTBOX && opened.payload) {
+        opened.payload = await this.cipher.openFields(opened.payload, ["content"]);
+        if (opened.payload.attachment) {
+          opened.payload.attachment = await this.cipher.openFields(opened.payload.attachment, ["file"]);
+        }
+      }
+      return opened as T;
+    } catch (error) {
+      console.warn(`Skipping a cached ${storeName} record that can't be decrypted:`, error);
+      return null;
+    }
+  }
+
+  private async openRecords<T extends object>(storeName: SealedStore, records: T[]): Promise<T[]> {
+    const opened = await Promise.all(records.map((record) => this.openRecord(storeName, record)));
+    return opened.filter((record): record is Awaited<T> => record !== null) as T[];
+  }
+
+  async getEncryptionInfo(): Promise<CacheEncryptionInfo> {
+    await this.initDB();
+    const keyring = this.cipher?.keyring;
+    const currentKey = keyring?.keys.find((key) => key.id === keyring.current);
+
+    return {
+      supported: isCacheEncryptionSupported(),
+      enabled: !!currentKey,
+      keyCreatedAt: currentKey?.created_at ?? null,
+      rewriting: !!keyring?.rewriting,
+    };
+  }
+
+  // Seal everything cached from now on and re-seal what is cached already
+  async enableEncryption(): Promise<void> {
+    if (!isCacheEncryptionSupported()) {
+      throw new Error("Encryption is not available in this browser");
+    }
+    await this.initDB();
+    if (this.sealingCipher()) return;
+
+    const userId = this.userId!;
+    const key = await createCacheKey();
+    await this.switchKeyring(userId, {
+      user_id: userId,
+      current: key.id,
+      keys: [...(this.cipher?.keyring.keys || []), key],
+      rewriting: true,
+    });
+    await accountRegistry.setEncrypted(userId, true);
+    await this.rewriteCache();
+  }
+
+  async disableEncryption(): Promise<void> {
+    await this.initDB();
+    if (!this.cipher) return;
+
+    const userId = this.userId!;
+    await this.switchKeyring(userId, { ...this.cipher.keyring, current: null, rewriting: true });
+    await accountRegistry.setEncrypted(userId, false);
+    await this.rewriteCache();
+  }
+
+  // Seal with a new key, and re-seal the cache with it. The old key is
+  // deleted once nothing uses it anymore.
+  async rotateEncryptionKey(): Promise<void> {
+    await this.initDB();
+    const cipher = this.sealingCipher();
+    if (!cipher) throw new Error("The cache is not encrypted");
+
+    const key = await createCacheKey();
+    await this.switchKeyring(this.userId!, {
+      ...cipher.keyring,
+      current: key.id,
+      keys: [...cipher.keyring.keys, key],
+      rewriting: true,
+    });
+    await this.rewriteCache();
+  }
+
+  // Delete the cache and keys of a user whose cache is encrypted, so nothing
+  // of it is left on the device after sign-out, unsent writes included. The
+  // next session starts over with a new key. Resolves to whether it did.
+  async wipeEncryptedCache(userId: string): Promise<boolean> {
+    if (!(await accountRegistry.isEncrypted(userId))) return false;
+
+    await this.deleteUserDatabase(userId);
+    await accountRegistry.deleteKeyring(userId);
+    console.log("IndexedDB: encrypted cache and its keys wiped");
+    return true;
+  }
+
+  private async switchKeyring(userId: string, keyring: CacheKeyring): Promise<void> {
+    await accountRegistry.saveKeyring(keyring);
+    if (userId === this.userId) {
+      this.cipher = new CacheCipher(keyring);
+      tabCoordinator.publish(DB_KEYS_TOPIC, { database: this.dbName });
+    }
+  }
+
+  // Re-seal every sensitive record with the current key, or store it in
+  // plain text when encryption is being turned off, and rebuild its search
+  // index rows to match. Safe to interrupt: old keys stay in the keyring until
+  // it completes, and the next session picks it up again.
+  private rewriteCache(): Promise<void> {
+    if (!this.rewritePromise) {
+      this.rewritePromise = (async () => {
+        // Keys changed again mid-rewrite: start over with the new ones
+        let cipher: CacheCipher | null = null;
+        while (this.cipher?.keyring.rewriting && this.cipher !== cipher) {
+          cipher = this.cipher;
+          await this.rewriteAllRecords();
+        }
+      })().finally(() => {
+        this.rewritePromise = null;
+      });
+    }
+    return this.rewritePromise;
+  }
+
+  private async rewriteAllRecords(): Promise<void> {
+    const userId = this.userId;
+    const cipher = this.cipher;
+    if (!userId || !cipher) return;
+
+    console.log("IndexedDB: re-sealing the local cache");
+    let skipped = 0;
+    for (let pass = 0; pass < MAX_REWRITE_PASSES; pass++) {
+      skipped = 0;
+      for (const storeName of Object.keys(SEALED_FIELDS) as SealedStore[]) {
+        skipped += await this.rewriteStore(storeName);
+        // Signed out or switched keys meanwhile; the next load resumes
+        if (this.userId !== userId || this.cipher !== cipher) return;
+      }
+      if (skipped === 0) break;
+    }
+    if (skipped > 0) {
+      console.warn(`${skipped} cached records changed during every re-sealing pass and may be unreadable`);
+    }
+
+    // Only the current key is needed now
+    const keyring = cipher.keyring;
+    if (keyring.current === null) {
+      await accountRegistry.deleteKeyring(userId);
+      if (this.userId === userId) {
+        this.cipher = null;
+        tabCoordinator.publish(DB_KEYS_TOPIC, { database: this.dbName });
+      }
+    } else {
+      await this.switchKeyring(userId, {
+        ...keyring,
+        keys: keyring.keys.filter((key) => key.id === keyring.current),
+        rewriting: false,
+      });
+    }
+    console.log("IndexedDB: local cache re-sealed");
+  }
+
+  // Rewrite a store in batches. Records that changed between reading and
+  // writing a batch are left alone; resolves to their number.
+  private async rewriteStore(storeName: SealedStore): Promise<number> {
+    let skipped = 0;
+    let lastKey: IDBValidKey | null = null;
+
+    while (true) {
+      const store = await this.getStore(storeName);
+      const range: IDBKeyRange | null = lastKey === null ? null : IDBKeyRange.lowerBound(lastKey, true);
+      const records: object[] = await requestResult(store.getAll(range, REWRITE_BATCH_SIZE));
+      const keys: IDBValidKey[] = await requestResult(store.getAllKeys(range, REWRITE_BATCH_SIZE));
+      if (records.length === 0) return skipped;
+      lastKey = keys[keys.length - 1];
+
+      const opened = await Promise.all(records.map((record) => this.openRecord(storeName, record)));
+      const rewritten = await Promise.all(opened.map((record) => record && this.sealRecord(storeName, record)));
+      const indexRows = storeName === STORES.MESSAGES
+        ? await Promise.all(opened.map((message) => message ? this.searchIndexRows(message as Message) : []))
+        : null;
+
+      const transaction = await this.getTransaction([storeName, STORES.SEARCH_INDEX], "readwrite");
+      const writeStore = transaction.objectStore(storeName);
+      const indexStore = transaction.objectStore(STORES.SEARCH_INDEX);
+      const dropped: IDBValidKey[] = [];
+
+      await new Promise<void>((resolve, reject) => {
+        records.forEach((record, i) => {
+          const currentRequest = writeStore.get(keys[i]);
+          currentRequest.onsuccess = () => {
+            const current = currentRequest.result;
+            if (!current) return;
+            if (recordFingerprint(current) !== recordFingerprint(record)) {
+              skipped++;
+              return;
+            }
+
+            // Unreadable records are dropped; sync fetches what it still needs
+            if (rewritten[i]) {
+              writeStore.put(rewritten[i]);
+            } else {
+              writeStore.delete(keys[i]);
+              dropped.push(keys[i]);
+            }
+            if (indexRows) {
+              this.reindexMessage(indexStore, (record as Message).id, indexRows[i]);
+            }
+          };
+        });
+        transaction.oncomplete = () => {
+          if (dropped.length > 0) this.notify({ store: storeName, keys: dropped });
+          resolve();
+        };
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+  }
+
+  // Schema version, upgrade history and the state of the last open, for the
+  // storage manager
+  async getSchemaInfo(): Promise<SchemaInfo> {
+    const base = {
+      latestVersion: DB_VERSION,
+      migrations: MIGRATIONS.map(({ version, description }) => ({ version, description })),
+    };
+
+    try {
+      const db = await this.initDB();
+      return {
+        ...base,
+        version: db.version,
+        status: this.schemaStatus,
+        error: this.schemaError,
+        history: await readSchemaHistory(db),
+      };
+    } catch (error) {
+      return {
+        ...base,
+        version: 0,
+        status: this.schemaStatus === 'blocked' ? 'blocked' : 'failed',
+        error: this.schemaError || (error instanceof Error ? error.message : String(error)),
+        history: [],
+      };
+    }
   }
 
   // Generic database operations
@@ -119,27 +1027,46 @@ class IndexedDBService {
 
   // Messages operations
   async saveMessage(message: Message): Promise<void> {
-    const store = await this.getStore(STORES.MESSAGES, "readwrite");
+    const stored = await this.sealRecord(STORES.MESSAGES, withDeliveryStatus(message));
+    const indexRows = await this.searchIndexRows(message);
+    const transaction = await this.getTransaction([STORES.MESSAGES, STORES.SEARCH_INDEX], "readwrite");
+    const store = transaction.objectStore(STORES.MESSAGES);
     
     return new Promise((resolve, reject) => {
-      const request = store.put(message);
-      request.onsuccess = () => resolve();
+      const request = store.put(stored);
+      this.reindexMessage(transaction.objectStore(STORES.SEARCH_INDEX), message.id, indexRows);
+      request.onsuccess = () => {
+        this.notify({ store: STORES.MESSAGES, keys: [message.id], chatIds: [message.chat_id] });
+        resolve();
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
   async saveMessages(messages: Message[]): Promise<void> {
-    const store = await this.getStore(STORES.MESSAGES, "readwrite");
+    const stored = await Promise.all(
+      messages.map((message) => this.sealRecord(STORES.MESSAGES, withDeliveryStatus(message)))
+    );
+    const indexRows = await Promise.all(messages.map((message) => this.searchIndexRows(message)));
+    const transaction = await this.getTransaction([STORES.MESSAGES, STORES.SEARCH_INDEX], "readwrite");
+    const store = transaction.objectStore(STORES.MESSAGES);
+    const indexStore = transaction.objectStore(STORES.SEARCH_INDEX);
     
     return new Promise((resolve, reject) => {
       let completed = 0;
       let hasError = false;
 
-      messages.forEach((message) => {
-        const request = store.put(message);
+      messages.forEach((message, i) => {
+        const request = store.put(stored[i]);
+        this.reindexMessage(indexStore, message.id, indexRows[i]);
         request.onsuccess = () => {
           completed++;
           if (completed === messages.length && !hasError) {
+            this.notify({
+              store: STORES.MESSAGES,
+              keys: messages.map((message) => message.id),
+              chatIds: Array.from(new Set(messages.map((message) => message.chat_id))),
+            });
             resolve();
           }
         };
@@ -155,51 +1082,154 @@ class IndexedDBService {
     });
   }
 
+  // A message's search index rows: one per distinct word, or for encrypted
+  // caches one search token per word and per indexed prefix. Deleted
+  // messages drop out of the index.
+  private async searchIndexRows(message: Message): Promise<SearchIndexRow[]> {
+    if (message.deleted_at) return [];
+
+    const frequencies = termFrequencies(message.content || "");
+    const row = (token: string, count: number): SearchIndexRow =>
+      ({ token, message_id: message.id, chat_id: message.chat_id, count });
+
+    const cipher = this.sealingCipher();
+    if (!cipher) {
+      return Array.from(frequencies, ([token, count]) => row(token, count));
+    }
+
+    // "w:" marks whole words and "p:" prefixes, so a word equal to another
+    // word's prefix gets a row of its own
+    const texts = new Map<string, number>();
+    const add = (text: string, count: number) => texts.set(text, (texts.get(text) || 0) + count);
+    frequencies.forEach((count, token) => {
+      add(`w:${token}`, count);
+      for (let length = SEARCH_PREFIX_MIN; length < token.length && length <= SEARCH_PREFIX_MAX; length++) {
+        add(`p:${token.slice(0, length)}`, count);
+      }
+    });
+
+    return Promise.all(
+      Array.from(texts, async ([text, count]) => row(await cipher.searchToken(text), count))
+    );
+  }
+
+  // Keep a message's search index rows in step with it, inside the write's
+  // own transaction
+  private reindexMessage(indexStore: IDBObjectStore, messageId: string, rows: SearchIndexRow[]): void {
+    const keysRequest = indexStore.index("message_id").getAllKeys(IDBKeyRange.only(messageId));
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach((key) => indexStore.delete(key));
+      rows.forEach((row) => indexStore.put(row));
+    };
+  }
+
+  private unindexMessage(indexStore: IDBObjectStore, messageId: string): void {
+    const keysRequest = indexStore.index("message_id").getAllKeys(IDBKeyRange.only(messageId));
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach((key) => indexStore.delete(key));
+    };
+  }
+
   async getMessagesByChatId(chatId: string): Promise<Message[]> {
     const store = await this.getStore(STORES.MESSAGES);
     
-    return new Promise((resolve, reject) => {
+    const messages = await new Promise<Message[]>((resolve, reject) => {
+      const messages: Message[] = [];
+      const index = store.index("chat_id");
+      const request = index.openCursor(IDBKeyRange.only(chatId));
+      
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result;
+        if (cursor) {
+          messages.push(cursor.value);
+          cursor.continue();
+        } else {
+          // Sort messages by created_at ascending
+          messages.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+          resolve(messages);
+        }
+      };
+      
+      request.onerror = () => reject(request.error);
+    });
+    return this.openRecords(STORES.MESSAGES, messages);
+  }
+
+  // Up to `limit` messages of a chat created before `before` (newest page when
+  // null) and not older than `floor`, returned in ascending order
+  async getMessagesPage(
+    chatId: string,
+    before: string | null,
+    limit: number,
+    floor: string = HISTORY_START
+  ): Promise<Message[]> {
+    const store = await this.getStore(STORES.MESSAGES);
+
+    const messages = await new Promise<Message[]>((resolve, reject) => {
       const messages: Message[] = [];
-      const index = store.index("chat_id");
-      const request = index.openCursor(IDBKeyRange.only(chatId));
-      
+      const index = store.index("chat_id_created_at");
+      const range = IDBKeyRange.bound(
+        [chatId, floor],
+        [chatId, before ?? "\uffff"],
+        false,
+        before !== null
+      );
+      const request = index.openCursor(range, "prev");
+
       request.onsuccess = (event) => {
         const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
+        if (cursor && messages.length < limit) {
           messages.push(cursor.value);
           cursor.continue();
         } else {
-          // Sort messages by created_at ascending
-          messages.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-          resolve(messages);
+          resolve(messages.reverse());
         }
       };
-      
+
       request.onerror = () => reject(request.error);
     });
+    return this.openRecords(STORES.MESSAGES, messages);
   }
 
   async getMessage(messageId: string): Promise<Message | null> {
     const store = await this.getStore(STORES.MESSAGES);
-    
-    return new Promise((resolve, reject) => {
-      const request = store.get(messageId);
-      request.onsuccess = () => resolve(request.result || null);
-      request.onerror = () => reject(request.error);
-    });
+    const message: Message | undefined = await requestResult(store.get(messageId));
+    return message ? this.openRecord(STORES.MESSAGES, message) : null;
+  }
+
+  // Both the optimistic row and the server row while a send is reconciled
+  async getMessagesByClientId(clientId: string): Promise<Message[]> {
+    const store = await this.getStore(STORES.MESSAGES);
+    const messages: Message[] = await requestResult(store.index("client_id").getAll(IDBKeyRange.only(clientId)));
+    return this.openRecords(STORES.MESSAGES, messages);
   }
 
   async updateMessage(messageId: string, updates: Partial<Message>): Promise<void> {
-    const store = await this.getStore(STORES.MESSAGES, "readwrite");
+    // Index rows and sealed fields are prepared before the transaction opens
+    let indexRows: SearchIndexRow[] | null = null;
+    if ('content' in updates || 'deleted_at' in updates) {
+      const current = await this.getMessage(messageId);
+      if (current) indexRows = await this.searchIndexRows({ ...current, ...updates });
+    }
+    const sealedUpdates = await this.sealRecord(STORES.MESSAGES, updates);
+
+    const transaction = await this.getTransaction([STORES.MESSAGES, STORES.SEARCH_INDEX], "readwrite");
+    const store = transaction.objectStore(STORES.MESSAGES);
     
     return new Promise(async (resolve, reject) => {
       const getRequest = store.get(messageId);
       getRequest.onsuccess = () => {
         const existingMessage = getRequest.result;
         if (existingMessage) {
-          const updatedMessage = { ...existingMessage, ...updates };
+          const updatedMessage = withDeliveryStatus({ ...existingMessage, ...sealedUpdates });
           const putRequest = store.put(updatedMessage);
-          putRequest.onsuccess = () => resolve();
+          if (indexRows) {
+            this.reindexMessage(transaction.objectStore(STORES.SEARCH_INDEX), messageId, indexRows);
+          }
+          putRequest.onsuccess = () => {
+            this.notify({ store: STORES.MESSAGES, keys: [messageId], chatIds: [updatedMessage.chat_id] });
+            resolve();
+          };
           putRequest.onerror = () => reject(putRequest.error);
         } else {
           reject(new Error("Message not found"));
@@ -210,27 +1240,63 @@ class IndexedDBService {
   }
 
   async deleteMessage(messageId: string): Promise<void> {
-    const store = await this.getStore(STORES.MESSAGES, "readwrite");
+    const transaction = await this.getTransaction([STORES.MESSAGES, STORES.SEARCH_INDEX], "readwrite");
+    const store = transaction.objectStore(STORES.MESSAGES);
     
     return new Promise((resolve, reject) => {
       const request = store.delete(messageId);
-      request.onsuccess = () => resolve();
+      this.unindexMessage(transaction.objectStore(STORES.SEARCH_INDEX), messageId);
+      request.onsuccess = () => {
+        this.notify({ store: STORES.MESSAGES, keys: [messageId] });
+        resolve();
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
+  async deleteMessages(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    const transaction = await this.getTransaction([STORES.MESSAGES, STORES.SEARCH_INDEX], "readwrite");
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(STORES.MESSAGES);
+      const indexStore = transaction.objectStore(STORES.SEARCH_INDEX);
+      messageIds.forEach((messageId) => {
+        store.delete(messageId);
+        this.unindexMessage(indexStore, messageId);
+      });
+
+      transaction.oncomplete = () => {
+        this.notify({ store: STORES.MESSAGES, keys: messageIds });
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   // Chats operations
   async saveChat(chat: Chat): Promise<void> {
+    const stored = await this.sealRecord(STORES.CHATS, chat);
     const store = await this.getStore(STORES.CHATS, "readwrite");
     
     return new Promise((resolve, reject) => {
-      const request = store.put(chat);
-      request.onsuccess = () => resolve();
+      const request = store.put(stored);
+      request.onsuccess = () => {
+        this.notify({ store: STORES.CHATS, keys: [chat.id], chatIds: [chat.id] });
+        resolve();
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
   async saveChats(chats: Chat[]): Promise<void> {
+    const storedChats = await Promise.all(chats.map((chat) => this.sealRecord(STORES.CHATS, chat)));
+    const storedProfiles = await Promise.all(chats.map((chat) => Promise.all(
+      (chat.chat_participants || []).map((participant) =>
+        participant.profiles ? this.sealRecord(STORES.PROFILES, participant.profiles) : null
+      )
+    )));
     const transaction = await this.getTransaction([STORES.CHATS, STORES.CHAT_PARTICIPANTS, STORES.PROFILES], "readwrite");
     
     return new Promise((resolve, reject) => {
@@ -241,37 +1307,57 @@ class IndexedDBService {
       const participantsStore = transaction.objectStore(STORES.CHAT_PARTICIPANTS);
       const profilesStore = transaction.objectStore(STORES.PROFILES);
 
-      chats.forEach((chat) => {
-        // Save the chat itself
-        const chatRequest = chatStore.put(chat);
-        
-        chatRequest.onsuccess = () => {
-          // Save chat participants and their profiles
-          if (chat.chat_participants) {
-            chat.chat_participants.forEach((participant) => {
-              // Save the participant relationship
-              participantsStore.put({
-                chat_id: chat.id,
-                user_id: participant.user_id,
-                role: 'member' // default role
+      chats.forEach((chat, chatIndex) => {
+        // Chat rows from the server carry no summary; keep the cached one
+        const existingRequest = chatStore.get(chat.id);
+
+        existingRequest.onsuccess = () => {
+          const stored = storedChats[chatIndex];
+          const summary = stored.summary || existingRequest.result?.summary;
+          // Save the chat itself
+          const chatRequest = chatStore.put(summary ? { ...stored, summary } : stored);
+
+          chatRequest.onsuccess = () => {
+            // Save chat participants and their profiles
+            if (chat.chat_participants) {
+              // Replace the membership set so removed members don't linger
+              participantsStore.delete(chatParticipantsRange(chat.id));
+
+              chat.chat_participants.forEach((participant, participantIndex) => {
+                // Save the participant relationship
+                participantsStore.put({
+                  chat_id: chat.id,
+                  user_id: participant.user_id,
+                  role: participant.role || 'member'
+                });
+                
+                // Save the profile if it exists
+                const profile = storedProfiles[chatIndex][participantIndex];
+                if (profile) {
+                  profilesStore.put(profile);
+                }
               });
-              
-              // Save the profile if it exists
-              if (participant.profiles) {
-                profilesStore.put(participant.profiles);
-              }
-            });
-          }
+            }
+            
+            completed++;
+            if (completed === chats.length && !hasError) {
+              const chatIds = chats.map((chat) => chat.id);
+              this.notify({ store: STORES.CHATS, keys: chatIds, chatIds });
+              this.notify({ store: STORES.CHAT_PARTICIPANTS, chatIds });
+              this.notify({ store: STORES.PROFILES });
+              resolve();
+            }
+          };
           
-          completed++;
-          if (completed === chats.length && !hasError) {
-            resolve();
-          }
+          chatRequest.onerror = () => {
+            hasError = true;
+            reject(chatRequest.error);
+          };
         };
-        
-        chatRequest.onerror = () => {
+
+        existingRequest.onerror = () => {
           hasError = true;
-          reject(chatRequest.error);
+          reject(existingRequest.error);
         };
       });
 
@@ -288,9 +1374,9 @@ class IndexedDBService {
       try {
         const request = store.getAll();
         request.onsuccess = async () => {
-          const chats = request.result;
+          const chats: Chat[] = await this.openRecords(STORES.CHATS, request.result);
           
-          // For each chat, reconstruct the chat_participants with profiles and load messages
+          // For each chat, reconstruct the chat_participants with profiles
           const enrichedChats = await Promise.all(
             chats.map(async (chat) => {
               const participants = await this.getChatParticipants(chat.id);
@@ -299,36 +1385,21 @@ class IndexedDBService {
                   const profile = await this.getProfile(participant.user_id);
                   return {
                     user_id: participant.user_id,
-                    profiles: profile || {
-                      id: participant.user_id,
-                      email: '',
-                      full_name: 'Unknown User',
-                      avatar_url: null,
-                      phone_number: null,
-                      created_at: '',
-                      last_seen: null
-                    }
+                    role: participant.role,
+                    profiles: profile || unknownProfile(participant.user_id)
                   };
                 })
               );
 
-              // Load messages for this chat
-              const messages = await this.getMessagesByChatId(chat.id);
-              
               return {
                 ...chat,
-                chat_participants: participantsWithProfiles,
-                messages: messages
+                chat_participants: participantsWithProfiles
               };
             })
           );
           
           // Sort by last_message_at descending
-          enrichedChats.sort((a, b) => {
-            const aTime = a.last_message_at ? new Date(a.last_message_at).getTime() : 0;
-            const bTime = b.last_message_at ? new Date(b.last_message_at).getTime() : 0;
-            return bTime - aTime;
-          });
+          enrichedChats.sort(compareChatsByActivity);
           
           resolve(enrichedChats);
         };
@@ -339,17 +1410,24 @@ class IndexedDBService {
     });
   }
 
-  async getChat(chatId: string): Promise<Chat | null> {
+  async getChatIds(): Promise<string[]> {
     const store = await this.getStore(STORES.CHATS);
-    
+
     return new Promise((resolve, reject) => {
-      const request = store.get(chatId);
-      request.onsuccess = () => resolve(request.result || null);
+      const request = store.getAllKeys();
+      request.onsuccess = () => resolve(request.result as string[]);
       request.onerror = () => reject(request.error);
     });
   }
 
+  async getChat(chatId: string): Promise<Chat | null> {
+    const store = await this.getStore(STORES.CHATS);
+    const chat: Chat | undefined = await requestResult(store.get(chatId));
+    return chat ? this.openRecord(STORES.CHATS, chat) : null;
+  }
+
   async updateChat(chatId: string, updates: Partial<Chat>): Promise<void> {
+    const sealedUpdates = await this.sealRecord(STORES.CHATS, updates);
     const store = await this.getStore(STORES.CHATS, "readwrite");
     
     return new Promise(async (resolve, reject) => {
@@ -357,9 +1435,12 @@ class IndexedDBService {
       getRequest.onsuccess = () => {
         const existingChat = getRequest.result;
         if (existingChat) {
-          const updatedChat = { ...existingChat, ...updates };
+          const updatedChat = { ...existingChat, ...sealedUpdates };
           const putRequest = store.put(updatedChat);
-          putRequest.onsuccess = () => resolve();
+          putRequest.onsuccess = () => {
+            this.notify({ store: STORES.CHATS, keys: [chatId], chatIds: [chatId] });
+            resolve();
+          };
           putRequest.onerror = () => reject(putRequest.error);
         } else {
           reject(new Error("Chat not found"));
@@ -369,13 +1450,54 @@ class IndexedDBService {
     });
   }
 
+  // Store summaries on their cached chats; chats not cached yet are skipped
+  // and pick up their summary on the next chat sync
+  async saveChatSummaries(summaries: Map<string, ChatSummary>): Promise<void> {
+    if (summaries.size === 0) return;
+
+    const sealedSummaries = new Map(await Promise.all(
+      Array.from(summaries, async ([chatId, summary]) =>
+        [chatId, (await this.sealRecord(STORES.CHATS, { summary })).summary] as const
+      )
+    ));
+    const transaction = await this.getTransaction(STORES.CHATS, "readwrite");
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(STORES.CHATS);
+      transaction.oncomplete = () => {
+        const chatIds = Array.from(summaries.keys());
+        this.notify({ store: STORES.CHATS, keys: chatIds, chatIds });
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+
+      sealedSummaries.forEach((summary, chatId) => {
+        const getRequest = store.get(chatId);
+        getRequest.onsuccess = () => {
+          if (getRequest.result) {
+            store.put({ ...getRequest.result, summary });
+          }
+        };
+      });
+    });
+  }
+
   async deleteChat(chatId: string): Promise<void> {
-    const transaction = await this.getTransaction([STORES.CHATS, STORES.MESSAGES, STORES.CHAT_PARTICIPANTS], "readwrite");
+    const transaction = await this.getTransaction(
+      [STORES.CHATS, STORES.MESSAGES, STORES.CHAT_PARTICIPANTS, STORES.SYNC_STATUS, STORES.SEARCH_INDEX, STORES.CHAT_USAGE, STORES.OUTBOX],
+      "readwrite"
+    );
     
     return new Promise((resolve, reject) => {
       // Delete chat
       const chatStore = transaction.objectStore(STORES.CHATS);
       chatStore.delete(chatId);
+      transaction.objectStore(STORES.CHAT_USAGE).delete(chatId);
+
+      // Forget the chat's message watermark so a rejoin starts from scratch
+      const syncStore = transaction.objectStore(STORES.SYNC_STATUS);
+      syncStore.delete(syncStatusId('messages', chatId));
+      syncStore.delete(syncStatusId('message_history', chatId));
 
       // Delete all messages in chat
       const messagesStore = transaction.objectStore(STORES.MESSAGES);
@@ -390,6 +1512,26 @@ class IndexedDBService {
         }
       };
 
+      // Drop the chat's messages from the search index
+      transaction.objectStore(STORES.SEARCH_INDEX).index("chat_id").openKeyCursor(IDBKeyRange.only(chatId))
+        .onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+          if (cursor) {
+            transaction.objectStore(STORES.SEARCH_INDEX).delete(cursor.primaryKey);
+            cursor.continue();
+          }
+        };
+
+      // Unsent writes to a chat the user is no longer in can only be rejected
+      const outboxStore = transaction.objectStore(STORES.OUTBOX);
+      outboxStore.index("chat_id").openKeyCursor(IDBKeyRange.only(chatId)).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+        if (cursor) {
+          outboxStore.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+
       // Delete all chat participants
       const participantsStore = transaction.objectStore(STORES.CHAT_PARTICIPANTS);
       const participantsIndex = participantsStore.index("chat_id");
@@ -403,34 +1545,51 @@ class IndexedDBService {
         }
       };
 
-      transaction.oncomplete = () => resolve();
+      transaction.oncomplete = () => {
+        this.notify({ store: STORES.CHATS, keys: [chatId], chatIds: [chatId] });
+        this.notify({ store: STORES.MESSAGES, chatIds: [chatId] });
+        this.notify({ store: STORES.CHAT_PARTICIPANTS, chatIds: [chatId] });
+        this.notify({ store: STORES.CHAT_USAGE, keys: [chatId], chatIds: [chatId] });
+        this.notify({ store: STORES.OUTBOX, chatIds: [chatId] });
+        this.notify({
+          store: STORES.SYNC_STATUS,
+          keys: [syncStatusId('messages', chatId), syncStatusId('message_history', chatId)],
+        });
+        resolve();
+      };
       transaction.onerror = () => reject(transaction.error);
     });
   }
 
   // Profiles operations
   async saveProfile(profile: Profile): Promise<void> {
+    const stored = await this.sealRecord(STORES.PROFILES, profile);
     const store = await this.getStore(STORES.PROFILES, "readwrite");
     
     return new Promise((resolve, reject) => {
-      const request = store.put(profile);
-      request.onsuccess = () => resolve();
+      const request = store.put(stored);
+      request.onsuccess = () => {
+        this.notify({ store: STORES.PROFILES, keys: [profile.id] });
+        resolve();
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
   async saveProfiles(profiles: Profile[]): Promise<void> {
+    const stored = await Promise.all(profiles.map((profile) => this.sealRecord(STORES.PROFILES, profile)));
     const store = await this.getStore(STORES.PROFILES, "readwrite");
     
     return new Promise((resolve, reject) => {
       let completed = 0;
       let hasError = false;
 
-      profiles.forEach((profile) => {
+      stored.forEach((profile) => {
         const request = store.put(profile);
         request.onsuccess = () => {
           completed++;
           if (completed === profiles.length && !hasError) {
+            this.notify({ store: STORES.PROFILES, keys: profiles.map((profile) => profile.id) });
             resolve();
           }
         };
@@ -448,30 +1607,33 @@ class IndexedDBService {
 
   async getProfile(profileId: string): Promise<Profile | null> {
     const store = await this.getStore(STORES.PROFILES);
-    
-    return new Promise((resolve, reject) => {
-      const request = store.get(profileId);
-      request.onsuccess = () => resolve(request.result || null);
-      request.onerror = () => reject(request.error);
-    });
+    const profile: Profile | undefined = await requestResult(store.get(profileId));
+    return profile ? this.openRecord(STORES.PROFILES, profile) : null;
   }
 
   // Chat participants operations
-  async saveChatParticipant(participant: any): Promise<void> {
+  async saveChatParticipant(participant: ChatParticipantRecord): Promise<void> {
     const store = await this.getStore(STORES.CHAT_PARTICIPANTS, "readwrite");
     
     return new Promise((resolve, reject) => {
       const request = store.put(participant);
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        this.notify({
+          store: STORES.CHAT_PARTICIPANTS,
+          keys: [[participant.chat_id, participant.user_id]],
+          chatIds: [participant.chat_id],
+        });
+        resolve();
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
-  async getChatParticipants(chatId: string): Promise<any[]> {
+  async getChatParticipants(chatId: string): Promise<ChatParticipantRecord[]> {
     const store = await this.getStore(STORES.CHAT_PARTICIPANTS);
     
     return new Promise((resolve, reject) => {
-      const participants: any[] = [];
+      const participants: ChatParticipantRecord[] = [];
       const index = store.index("chat_id");
       const request = index.openCursor(IDBKeyRange.only(chatId));
       
@@ -490,67 +1652,222 @@ class IndexedDBService {
   }
 
   // Sync status operations
-  async getSyncStatus(type: SyncStatus['type']): Promise<SyncStatus | null> {
+  async getSyncStatus(type: SyncEntityType, scope: string = GLOBAL_SYNC_SCOPE): Promise<SyncStatus | null> {
     const store = await this.getStore(STORES.SYNC_STATUS);
     
     return new Promise((resolve, reject) => {
-      const request = store.get(type);
+      const request = store.get(syncStatusId(type, scope));
       request.onsuccess = () => resolve(request.result || null);
       request.onerror = () => reject(request.error);
     });
   }
 
-  async updateSyncStatus(type: SyncStatus['type']): Promise<void> {
+  async getSyncStatusesByType(type: SyncEntityType): Promise<SyncStatus[]> {
+    const store = await this.getStore(STORES.SYNC_STATUS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.index("type").getAll(IDBKeyRange.only(type));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // `lastSyncAt` should be the newest server timestamp seen, so the next
+  // incremental sync does not depend on the local clock
+  async updateSyncStatus(
+    type: SyncEntityType,
+    scope: string = GLOBAL_SYNC_SCOPE,
+    lastSyncAt: string = new Date().toISOString()
+  ): Promise<void> {
     const store = await this.getStore(STORES.SYNC_STATUS, "readwrite");
     
     return new Promise((resolve, reject) => {
       const syncStatus: SyncStatus = {
-        id: type,
+        id: syncStatusId(type, scope),
         type,
-        lastSyncAt: new Date().toISOString(),
+        scope,
+        lastSyncAt,
+        syncedAt: new Date().toISOString(),
       };
       
       const request = store.put(syncStatus);
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        this.notify({ store: STORES.SYNC_STATUS, keys: [syncStatus.id] });
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteSyncStatus(type: SyncEntityType, scope: string = GLOBAL_SYNC_SCOPE): Promise<void> {
+    const store = await this.getStore(STORES.SYNC_STATUS, "readwrite");
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(syncStatusId(type, scope));
+      request.onsuccess = () => {
+        this.notify({ store: STORES.SYNC_STATUS, keys: [syncStatusId(type, scope)] });
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Outbox operations
+  async addOutboxEntry(entry: OutboxEntry): Promise<number> {
+    const stored = await this.sealRecord(STORES.OUTBOX, entry);
+    const store = await this.getStore(STORES.OUTBOX, "readwrite");
+
+    return new Promise((resolve, reject) => {
+      const request = store.add(stored);
+      request.onsuccess = () => {
+        this.notify({ store: STORES.OUTBOX, keys: [request.result], chatIds: [entry.chat_id] });
+        resolve(request.result as number);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getOutboxEntries(): Promise<OutboxEntry[]> {
+    const store = await this.getStore(STORES.OUTBOX);
+    // Primary key order is insertion order
+    const entries: OutboxEntry[] = await requestResult(store.getAll());
+    return this.openRecords(STORES.OUTBOX, entries);
+  }
+
+  async getOutboxEntriesForMessage(messageId: string): Promise<OutboxEntry[]> {
+    const store = await this.getStore(STORES.OUTBOX);
+    const entries: OutboxEntry[] = await requestResult(store.index("message_id").getAll(IDBKeyRange.only(messageId)));
+    return this.openRecords(STORES.OUTBOX, entries);
+  }
+
+  async updateOutboxEntry(seq: number, updates: Partial<OutboxEntry>): Promise<void> {
+    const sealedUpdates = await this.sealRecord(STORES.OUTBOX, updates);
+    const store = await this.getStore(STORES.OUTBOX, "readwrite");
+
+    return new Promise((resolve, reject) => {
+      const getRequest = store.get(seq);
+      getRequest.onsuccess = () => {
+        const existingEntry = getRequest.result;
+        if (existingEntry) {
+          const putRequest = store.put({ ...existingEntry, ...sealedUpdates, seq });
+          putRequest.onsuccess = () => {
+            this.notify({ store: STORES.OUTBOX, keys: [seq], chatIds: [existingEntry.chat_id] });
+            resolve();
+          };
+          putRequest.onerror = () => reject(putRequest.error);
+        } else {
+          reject(new Error("Outbox entry not found"));
+        }
+      };
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  }
+
+  async deleteOutboxEntry(seq: number): Promise<void> {
+    const store = await this.getStore(STORES.OUTBOX, "readwrite");
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(seq);
+      request.onsuccess = () => {
+        this.notify({ store: STORES.OUTBOX, keys: [seq] });
+        resolve();
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
   // Utility methods
-  async clearAllData(): Promise<void> {
+  // When `preserveOutboxForUserId` is set, that user's unsent writes (and the
+  // optimistic messages they refer to) survive the wipe so nothing typed
+  // offline is lost across a reload or re-login.
+  async clearAllData(preserveOutboxForUserId?: string): Promise<void> {
     const transaction = await this.getTransaction(Object.values(STORES), "readwrite");
+    // Stored as they are, possibly sealed; indexed again after the wipe
+    const keptMessages: Message[] = [];
     
-    return new Promise((resolve, reject) => {
-      Object.values(STORES).forEach((storeName) => {
-        const store = transaction.objectStore(storeName);
-        store.clear();
-      });
+    await new Promise<void>((resolve, reject) => {
+      const outboxStore = transaction.objectStore(STORES.OUTBOX);
+      const messagesStore = transaction.objectStore(STORES.MESSAGES);
+
+      const clearStores = (keptEntries: OutboxEntry[], keptMessages: Message[]) => {
+        Object.values(STORES).forEach((storeName) => {
+          transaction.objectStore(storeName).clear();
+        });
+        keptEntries.forEach((entry) => outboxStore.put(entry));
+        keptMessages.forEach((message) => messagesStore.put(message));
+      };
+
+      if (!preserveOutboxForUserId) {
+        clearStores([], []);
+      } else {
+        const outboxRequest = outboxStore.getAll();
+        outboxRequest.onsuccess = () => {
+          const keptEntries = (outboxRequest.result as OutboxEntry[]).filter(
+            (entry) => entry.user_id === preserveOutboxForUserId
+          );
+          const sendIds = keptEntries
+            .filter((entry) => entry.kind === 'send')
+            .map((entry) => entry.message_id);
+          let remaining = sendIds.length;
+
+          if (remaining === 0) {
+            clearStores(keptEntries, keptMessages);
+            return;
+          }
+
+          sendIds.forEach((messageId) => {
+            const messageRequest = messagesStore.get(messageId);
+            messageRequest.onsuccess = () => {
+              if (messageRequest.result) {
+                keptMessages.push(messageRequest.result);
+              }
+              remaining--;
+              if (remaining === 0) {
+                clearStores(keptEntries, keptMessages);
+              }
+            };
+          });
+        };
+      }
 
-      transaction.oncomplete = () => resolve();
+      transaction.oncomplete = () => {
+        Object.values(STORES).forEach((store) => this.notify({ store }));
+        resolve();
+      };
       transaction.onerror = () => reject(transaction.error);
     });
+
+    if (keptMessages.length > 0) {
+      const messages = await this.openRecords(STORES.MESSAGES, keptMessages);
+      const indexRows = await Promise.all(messages.map((message) => this.searchIndexRows(message)));
+      const indexTransaction = await this.getTransaction(STORES.SEARCH_INDEX, "readwrite");
+      await new Promise<void>((resolve, reject) => {
+        const indexStore = indexTransaction.objectStore(STORES.SEARCH_INDEX);
+        indexRows.flat().forEach((row) => indexStore.put(row));
+        indexTransaction.oncomplete = () => resolve();
+        indexTransaction.onerror = () => reject(indexTransaction.error);
+      });
+    }
   }
 
-  async getStorageInfo(): Promise<{
-    messagesCount: number;
-    chatsCount: number;
-    profilesCount: number;
-    estimatedSize: string;
-  }> {
-    const [messagesCount, chatsCount, profilesCount] = await Promise.all([
+  // Row counts, and what the whole origin uses of its quota as reported by
+  // the browser (null where the Storage API is unavailable)
+  async getStorageInfo(): Promise<StorageInfo> {
+    const [messagesCount, chatsCount, profilesCount, estimate] = await Promise.all([
       this.getCount(STORES.MESSAGES),
       this.getCount(STORES.CHATS),
       this.getCount(STORES.PROFILES),
+      typeof navigator !== "undefined" && navigator.storage?.estimate
+        ? navigator.storage.estimate().catch(() => null)
+        : Promise.resolve(null),
     ]);
 
-    // Estimate storage size (very rough approximation)
-    const estimatedSize = `~${Math.round((messagesCount * 0.5 + chatsCount * 0.1 + profilesCount * 0.1) * 100) / 100} KB`;
-
     return {
       messagesCount,
       chatsCount,
       profilesCount,
-      estimatedSize,
+      usageBytes: estimate?.usage ?? null,
+      quotaBytes: estimate?.quota ?? null,
     };
   }
 
@@ -564,35 +1881,256 @@ class IndexedDBService {
     });
   }
 
+  // Cache budget
+  async recordChatOpened(chatId: string): Promise<void> {
+    const store = await this.getStore(STORES.CHAT_USAGE, "readwrite");
+    const usage: ChatUsage = { chat_id: chatId, last_opened_at: new Date().toISOString() };
+
+    await requestResult(store.put(usage));
+    this.notify({ store: STORES.CHAT_USAGE, keys: [chatId], chatIds: [chatId] });
+  }
+
+  // Size of every chat's cached messages, largest first
+  async getChatStorageSizes(): Promise<ChatStorageSize[]> {
+    const transaction = await this.getTransaction([STORES.MESSAGES, STORES.CHAT_USAGE]);
+    const usage: ChatUsage[] = await requestResult(transaction.objectStore(STORES.CHAT_USAGE).getAll());
+    const sizes = new Map<string, ChatStorageSize>();
+
+    await new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore(STORES.MESSAGES).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        const message: Message = cursor.value;
+        const size = sizes.get(message.chat_id)
+          || { chat_id: message.chat_id, message_count: 0, bytes: 0, last_opened_at: null };
+        size.message_count += 1;
+        size.bytes += sealedRecordBytes(message);
+        sizes.set(message.chat_id, size);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    usage.forEach(({ chat_id, last_opened_at }) => {
+      const size = sizes.get(chat_id);
+      if (size) size.last_opened_at = last_opened_at;
+    });
+
+    return Array.from(sizes.values()).sort((a, b) => b.bytes - a.bytes);
+  }
+
+  // Drop all but the newest `keep` messages of a chat, and the history floor
+  // moves up so older pages are fetched again. Unsent messages stay, along
+  // with everything newer: reads stop at the floor, so it has to sit below
+  // them with no gaps above it. Resolves to the number of messages removed.
+  async trimChatMessages(chatId: string, keep: number): Promise<number> {
+    const transaction = await this.getTransaction(
+      [STORES.MESSAGES, STORES.SEARCH_INDEX, STORES.SYNC_STATUS],
+      "readwrite"
+    );
+    const messagesStore = transaction.objectStore(STORES.MESSAGES);
+    const indexStore = transaction.objectStore(STORES.SEARCH_INDEX);
+    const removedIds: string[] = [];
+
+    // Only a chat whose history is tracked has a floor to move, and it
+    // never moves down
+    const raiseHistoryFloor = (floor: string) => {
+      const syncStore = transaction.objectStore(STORES.SYNC_STATUS);
+      const historyRequest = syncStore.get(syncStatusId('message_history', chatId));
+      historyRequest.onsuccess = () => {
+        const history: SyncStatus | undefined = historyRequest.result;
+        if (history && history.lastSyncAt < floor) {
+          syncStore.put({ ...history, lastSyncAt: floor, syncedAt: new Date().toISOString() });
+        }
+      };
+    };
+
+    return new Promise((resolve, reject) => {
+      const range = IDBKeyRange.bound([chatId, ""], [chatId, "\uffff"]);
+      // Timestamps and sync status are stored in the clear
+      const request = messagesStore.index("chat_id_created_at").getAll(range);
+
+      request.onsuccess = () => {
+        const messages: Message[] = request.result;
+        const oldestUnsent = messages.findIndex((message) => message.sync_status);
+        // Oldest first, so everything from `cutoff` on is kept
+        const cutoff = Math.min(
+          Math.max(messages.length - keep, 0),
+          oldestUnsent === -1 ? messages.length : oldestUnsent
+        );
+        if (cutoff === 0) return;
+
+        messages.slice(0, cutoff).forEach((message) => {
+          messagesStore.delete(message.id);
+          this.unindexMessage(indexStore, message.id);
+          removedIds.push(message.id);
+        });
+        if (cutoff < messages.length) {
+          raiseHistoryFloor(messages[cutoff].created_at);
+        }
+      };
+
+      transaction.oncomplete = () => {
+        if (removedIds.length > 0) {
+          this.notify({ store: STORES.MESSAGES, keys: removedIds, chatIds: [chatId] });
+          this.notify({ store: STORES.SYNC_STATUS, keys: [syncStatusId('message_history', chatId)] });
+        }
+        resolve(removedIds.length);
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getStorageSettings(): Promise<StorageSettings> {
+    const store = await this.getStore(META_STORE);
+    const row: (StorageSettings & { id: string }) | undefined = await requestResult(store.get(STORAGE_SETTINGS_ID));
+    return { ...DEFAULT_STORAGE_SETTINGS, ...(row ? { budgetBytes: row.budgetBytes } : {}) };
+  }
+
+  async saveStorageSettings(settings: StorageSettings): Promise<void> {
+    const store = await this.getStore(META_STORE, "readwrite");
+    await requestResult(store.put({ id: STORAGE_SETTINGS_ID, ...settings }));
+  }
+
   // Search operations
-  async searchMessages(query: string, chatId?: string): Promise<Message[]> {
+  // Every query word has to match the start of a word in the message, with
+  // case and accents ignored. Results are ranked by tf-idf (exact words count
+  // more than prefixes), newest first on ties. A query of filters alone
+  // returns the newest matching messages. Encrypted caches find the same
+  // messages through search tokens, see searchIndexRows.
+  async searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit = SEARCH_RESULT_LIMIT
+  ): Promise<MessageSearchResult[]> {
+    const terms = queryTerms(query);
+    if (terms.length === 0) {
+      return hasSearchFilters(filters) ? this.filterMessages(filters, limit) : [];
+    }
+
+    const chatIds = filters.chatIds?.length ? new Set(filters.chatIds) : null;
+    // Search tokens are computed before the transaction opens
+    const cipher = this.sealingCipher();
+    const lookups = await Promise.all(terms.map((term) => this.searchLookups(term, cipher)));
+    const transaction = await this.getTransaction([STORES.SEARCH_INDEX, STORES.MESSAGES]);
+    const indexStore = transaction.objectStore(STORES.SEARCH_INDEX);
+    const messagesStore = transaction.objectStore(STORES.MESSAGES);
+    const totalMessages = Math.max(1, await requestResult(messagesStore.count()));
+
+    let scores: Map<string, number> | null = null;
+    for (const termLookups of lookups) {
+      // A message's best matching word for this term
+      const termWeights = new Map<string, number>();
+      for (const { range, weight: weightOf } of termLookups) {
+        const rows: SearchIndexRow[] = await requestResult(indexStore.getAll(range));
+        rows.forEach((row) => {
+          if (chatIds && !chatIds.has(row.chat_id)) return;
+          const weight = row.count * weightOf(row);
+          termWeights.set(row.message_id, Math.max(termWeights.get(row.message_id) || 0, weight));
+        });
+      }
+
+      const idf = Math.log(1 + totalMessages / Math.max(1, termWeights.size));
+      const next = new Map<string, number>();
+      termWeights.forEach((weight, messageId) => {
+        if (scores && !scores.has(messageId)) return;
+        next.set(messageId, (scores?.get(messageId) || 0) + weight * idf);
+      });
+
+      scores = next;
+      if (scores.size === 0) return [];
+    }
+
+    const candidates = Array.from(scores!.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SEARCH_CANDIDATES);
+
+    const matches: Array<[Message, number]> = [];
+    for (const [messageId, score] of candidates) {
+      const message: Message | undefined = await requestResult(messagesStore.get(messageId));
+      if (message && !message.deleted_at && matchesSearchFilters(message, filters)) {
+        matches.push([message, score]);
+      }
+    }
+
+    const results: MessageSearchResult[] = [];
+    for (const [stored, score] of matches) {
+      const message = await this.openRecord(STORES.MESSAGES, stored);
+      if (!message) continue;
+
+      // Search tokens match long terms by their first characters only
+      if (cipher) {
+        const words = tokenize(message.content || "").map(({ token }) => token);
+        if (!terms.every((term) => words.some((word) => word.startsWith(term)))) continue;
+      }
+      results.push({ message, score, snippet: buildSnippet(message.content, terms) });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score
+        || new Date(b.message.created_at).getTime() - new Date(a.message.created_at).getTime())
+      .slice(0, limit);
+  }
+
+  // Index ranges to read for a query term. Words are matched as prefixes
+  // within a range of the index; search tokens can only be looked up whole.
+  private async searchLookups(term: string, cipher: CacheCipher | null): Promise<SearchLookup[]> {
+    if (!cipher) {
+      return [{
+        range: IDBKeyRange.bound([term], [term + "\uffff"]),
+        weight: (row) => (row.token === term ? 1 : PREFIX_MATCH_WEIGHT),
+      }];
+    }
+
+    const tokenRange = (token: string) => IDBKeyRange.bound([token], [token, []]);
+    const lookups: SearchLookup[] = [
+      { range: tokenRange(await cipher.searchToken(`w:${term}`)), weight: () => 1 },
+    ];
+    if (term.length >= SEARCH_PREFIX_MIN) {
+      lookups.push({
+        range: tokenRange(await cipher.searchToken(`p:${term.slice(0, SEARCH_PREFIX_MAX)}`)),
+        weight: () => PREFIX_MATCH_WEIGHT,
+      });
+    }
+    return lookups;
+  }
+
+  // Newest first through the created_at index, without the search index
+  private async filterMessages(filters: MessageSearchFilters, limit: number): Promise<MessageSearchResult[]> {
     const store = await this.getStore(STORES.MESSAGES);
-    
-    return new Promise((resolve, reject) => {
-      const messages: Message[] = [];
-      const request = store.openCursor();
-      
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const message = cursor.value;
-          const matchesQuery = message.content.toLowerCase().includes(query.toLowerCase());
-          const matchesChat = !chatId || message.chat_id === chatId;
-          
-          if (matchesQuery && matchesChat) {
-            messages.push(message);
+    const upperBound = filters.before ? IDBKeyRange.upperBound(filters.before, true) : null;
+
+    const matches = await new Promise<Message[]>((resolve, reject) => {
+      const results: Message[] = [];
+      const request = store.index("created_at").openCursor(upperBound, "prev");
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        const message: Message | undefined = cursor?.value;
+        if (!cursor || !message || (filters.after && new Date(message.created_at) < new Date(filters.after))) {
+          resolve(results);
+          return;
+        }
+
+        if (!message.deleted_at && matchesSearchFilters(message, filters)) {
+          results.push(message);
+          if (results.length >= limit) {
+            resolve(results);
+            return;
           }
-          
-          cursor.continue();
-        } else {
-          // Sort by created_at descending for search results
-          messages.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-          resolve(messages);
         }
+        cursor.continue();
       };
-      
       request.onerror = () => reject(request.error);
     });
+
+    const messages = await this.openRecords(STORES.MESSAGES, matches);
+    return messages.map((message) => ({ message, score: 0, snippet: buildSnippet(message.content, []) }));
   }
 
   // Close database connection
@@ -609,4 +2147,5 @@ class IndexedDBService {
 export const indexedDBService = new IndexedDBService();
 
 // Export types for use in other files
-export type { Message, Chat, Profile, SyncStatus }; 
\ No newline at end of file
+export { GLOBAL_SYNC_SCOPE, HISTORY_START, STORES, SEARCH_RESULT_LIMIT, PREFIX_MATCH_WEIGHT, databaseNameFor, syncStatusId, unknownProfile, deliveryStatusOf, withDeliveryStatus, compareChatsByActivity, matchesChange };
+export type { CacheEncryptionInfo, ChatParticipantRecord, Message, MessageRead, MessageSyncStatus, DeliveryStatus, Chat, ChatSummary, Profile, SyncStatus, SyncEntityType, OutboxEntry, OutboxAttachment, StoreName, DBChange, DBChangeFilter, SchemaStatus, SchemaInfo, MessageSearchResult, ChatUsage, ChatStorageSize, StorageSettings }; 
\ No newline at end of file
@@ -0,0 +1,448 @@
+// A ChatStorage kept in plain maps, for wherever IndexedDB is missing:
+// server rendering, Node scripts and tests. Nothing outlives the instance.
+// Records are copied in and out, so callers can't change what is stored by
+// mutating what they passed or got back, as with IndexedDB.
+
+import {
+  GLOBAL_SYNC_SCOPE,
+  HISTORY_START,
+  STORES,
+  SEARCH_RESULT_LIMIT,
+  PREFIX_MATCH_WEIGHT,
+  syncStatusId,
+  unknownProfile,
+  withDeliveryStatus,
+  compareChatsByActivity,
+  type Message,
+  type Chat,
+  type ChatSummary,
+  type ChatParticipantRecord,
+  type Profile,
+  type SyncStatus,
+  type SyncEntityType,
+  type OutboxEntry,
+  type DBChange,
+  type MessageSearchResult,
+} from "./indexeddb";
+import {
+  termFrequencies,
+  queryTerms,
+  buildSnippet,
+  hasSearchFilters,
+  matchesSearchFilters,
+  type MessageSearchFilters,
+} from "./message-search";
+import type { ChatStorage, StorageInfo } from "./chat-storage";
+
+const copy = <T extends object>(record: T): T => ({ ...record });
+
+// Same order as the chat_id/created_at index, ties by ID
+const compareByCreatedAt = (a: Message, b: Message) =>
+  a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+const newestFirst = (a: MessageSearchResult, b: MessageSearchResult) =>
+  new Date(b.message.created_at).getTime() - new Date(a.message.created_at).getTime();
+
+class MemoryStorage implements ChatStorage {
+  private messages: Map<string, Message> = new Map();
+  private chats: Map<string, Chat> = new Map();
+  private profiles: Map<string, Profile> = new Map();
+  // Keyed by chat ID, then user ID
+  private participants: Map<string, Map<string, ChatParticipantRecord>> = new Map();
+  private syncStatuses: Map<string, SyncStatus> = new Map();
+  private outbox: Map<number, OutboxEntry> = new Map();
+  private lastOutboxSeq = 0;
+  private changeListeners: Set<(changes: DBChange[]) => void> = new Set();
+  private pendingChanges: DBChange[] = [];
+
+  onChange(listener: (changes: DBChange[]) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  // Batched per tick, like IndexedDBService
+  private notify(change: DBChange): void {
+    this.pendingChanges.push(change);
+    if (this.pendingChanges.length > 1) return;
+
+    queueMicrotask(() => {
+      const changes = this.pendingChanges;
+      this.pendingChanges = [];
+      this.changeListeners.forEach((listener) => {
+        try {
+          listener(changes);
+        } catch (error) {
+          console.error("Storage change listener failed:", error);
+        }
+      });
+    });
+  }
+
+  // Messages operations
+  async saveMessage(message: Message): Promise<void> {
+    this.messages.set(message.id, withDeliveryStatus(message));
+    this.notify({ store: STORES.MESSAGES, keys: [message.id], chatIds: [message.chat_id] });
+  }
+
+  async saveMessages(messages: Message[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    messages.forEach((message) => this.messages.set(message.id, withDeliveryStatus(message)));
+    this.notify({
+      store: STORES.MESSAGES,
+      keys: messages.map((message) => message.id),
+      chatIds: Array.from(new Set(messages.map((message) => message.chat_id))),
+    });
+  }
+
+  async getMessage(messageId: string): Promise<Message | null> {
+    const message = this.messages.get(messageId);
+    return message ? copy(message) : null;
+  }
+
+  async getMessagesByChatId(chatId: string): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter((message) => message.chat_id === chatId)
+      .sort(compareByCreatedAt)
+      .map(copy);
+  }
+
+  async getMessagesPage(
+    chatId: string,
+    before: string | null,
+    limit: number,
+    floor: string = HISTORY_START
+  ): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter((message) => message.chat_id === chatId && message.created_at >= floor
+        && (before === null || message.created_at < before))
+      .sort(compareByCreatedAt)
+      .slice(-limit)
+      .map(copy);
+  }
+
+  async getMessagesByClientId(clientId: string): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter((message) => message.client_id === clientId)
+      .map(copy);
+  }
+
+  async updateMessage(messageId: string, updates: Partial<Message>): Promise<void> {
+    const existingMessage = this.messages.get(messageId);
+    if (!existingMessage) throw new Error("Message not found");
+
+    const updatedMessage = withDeliveryStatus({ ...existingMessage, ...updates });
+    this.messages.set(messageId, updatedMessage);
+    this.notify({ store: STORES.MESSAGES, keys: [messageId], chatIds: [updatedMessage.chat_id] });
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    this.messages.delete(messageId);
+    this.notify({ store: STORES.MESSAGES, keys: [messageId] });
+  }
+
+  async deleteMessages(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    messageIds.forEach((messageId) => this.messages.delete(messageId));
+    this.notify({ store: STORES.MESSAGES, keys: messageIds });
+  }
+
+  // Scores like IndexedDBService.searchMessages, scanning messages instead
+  // of reading a search index
+  async searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit = SEARCH_RESULT_LIMIT
+  ): Promise<MessageSearchResult[]> {
+    const terms = queryTerms(query);
+    const live = Array.from(this.messages.values()).filter((message) => !message.deleted_at);
+
+    if (terms.length === 0) {
+      if (!hasSearchFilters(filters)) return [];
+      return live
+        .filter((message) => matchesSearchFilters(message, filters))
+        .map((message) => ({ message: copy(message), score: 0, snippet: buildSnippet(message.content, []) }))
+        .sort(newestFirst)
+        .slice(0, limit);
+    }
+
+    // The index is narrowed by chat before scoring, every other filter after
+    const chatIds = filters.chatIds?.length ? new Set(filters.chatIds) : null;
+    const words = new Map(
+      live
+        .filter((message) => !chatIds || chatIds.has(message.chat_id))
+        .map((message) => [message.id, termFrequencies(message.content || "")])
+    );
+    const totalMessages = Math.max(1, live.length);
+
+    let scores: Map<string, number> | null = null;
+    for (const term of terms) {
+      // A message's best matching word for this term
+      const termWeights = new Map<string, number>();
+      words.forEach((frequencies, messageId) => {
+        let best = 0;
+        frequencies.forEach((count, word) => {
+          if (word.startsWith(term)) {
+            best = Math.max(best, count * (word === term ? 1 : PREFIX_MATCH_WEIGHT));
+          }
+        });
+        if (best > 0) termWeights.set(messageId, best);
+      });
+
+      const idf = Math.log(1 + totalMessages / Math.max(1, termWeights.size));
+      const next = new Map<string, number>();
+      termWeights.forEach((weight, messageId) => {
+        if (scores && !scores.has(messageId)) return;
+        next.set(messageId, (scores?.get(messageId) || 0) + weight * idf);
+      });
+
+      scores = next;
+      if (scores.size === 0) return [];
+    }
+
+    const results: MessageSearchResult[] = [];
+    scores!.forEach((score, messageId) => {
+      const message = this.messages.get(messageId)!;
+      if (matchesSearchFilters(message, filters)) {
+        results.push({ message: copy(message), score, snippet: buildSnippet(message.content, terms) });
+      }
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score || newestFirst(a, b))
+      .slice(0, limit);
+  }
+
+  // Chats operations
+  async saveChat(chat: Chat): Promise<void> {
+    this.chats.set(chat.id, copy(chat));
+    this.notify({ store: STORES.CHATS, keys: [chat.id], chatIds: [chat.id] });
+  }
+
+  async saveChats(chats: Chat[]): Promise<void> {
+    if (chats.length === 0) return;
+
+    chats.forEach((chat) => {
+      // Chat rows from the server carry no summary; keep the stored one
+      const summary = chat.summary || this.chats.get(chat.id)?.summary;
+      this.chats.set(chat.id, summary ? { ...chat, summary } : copy(chat));
+
+      if (chat.chat_participants) {
+        // Replace the membership set so removed members don't linger
+        this.participants.set(chat.id, new Map(chat.chat_participants.map((participant) => [
+          participant.user_id,
+          { chat_id: chat.id, user_id: participant.user_id, role: participant.role || 'member' },
+        ])));
+        chat.chat_participants.forEach((participant) => {
+          if (participant.profiles) {
+            this.profiles.set(participant.profiles.id, copy(participant.profiles));
+          }
+        });
+      }
+    });
+
+    const chatIds = chats.map((chat) => chat.id);
+    this.notify({ store: STORES.CHATS, keys: chatIds, chatIds });
+    this.notify({ store: STORES.CHAT_PARTICIPANTS, chatIds });
+    this.notify({ store: STORES.PROFILES });
+  }
+
+  async getChats(): Promise<Chat[]> {
+    return Array.from(this.chats.values())
+      .map((chat) => ({
+        ...chat,
+        chat_participants: Array.from(this.participants.get(chat.id)?.values() || []).map((participant) => ({
+          user_id: participant.user_id,
+          role: participant.role,
+          profiles: copy(this.profiles.get(participant.user_id) || unknownProfile(participant.user_id)),
+        })),
+      }))
+      .sort(compareChatsByActivity);
+  }
+
+  async getChatIds(): Promise<string[]> {
+    return Array.from(this.chats.keys());
+  }
+
+  async getChat(chatId: string): Promise<Chat | null> {
+    const chat = this.chats.get(chatId);
+    return chat ? copy(chat) : null;
+  }
+
+  async updateChat(chatId: string, updates: Partial<Chat>): Promise<void> {
+    const existingChat = this.chats.get(chatId);
+    if (!existingChat) throw new Error("Chat not found");
+
+    this.chats.set(chatId, { ...existingChat, ...updates });
+    this.notify({ store: STORES.CHATS, keys: [chatId], chatIds: [chatId] });
+  }
+
+  // Chats not stored yet are skipped, as in IndexedDBService
+  async saveChatSummaries(summaries: Map<string, ChatSummary>): Promise<void> {
+    if (summaries.size === 0) return;
+
+    summaries.forEach((summary, chatId) => {
+      const chat = this.chats.get(chatId);
+      if (chat) this.chats.set(chatId, { ...chat, summary });
+    });
+    const chatIds = Array.from(summaries.keys());
+    this.notify({ store: STORES.CHATS, keys: chatIds, chatIds });
+  }
+
+  async deleteChat(chatId: string): Promise<void> {
+    this.chats.delete(chatId);
+    this.participants.delete(chatId);
+    this.messages.forEach((message, messageId) => {
+      if (message.chat_id === chatId) this.messages.delete(messageId);
+    });
+    this.outbox.forEach((entry, seq) => {
+      if (entry.chat_id === chatId) this.outbox.delete(seq);
+    });
+    // Forget the chat's message watermark so a rejoin starts from scratch
+    const syncIds = [syncStatusId('messages', chatId), syncStatusId('message_history', chatId)];
+    syncIds.forEach((id) => this.syncStatuses.delete(id));
+
+    this.notify({ store: STORES.CHATS, keys: [chatId], chatIds: [chatId] });
+    this.notify({ store: STORES.MESSAGES, chatIds: [chatId] });
+    this.notify({ store: STORES.CHAT_PARTICIPANTS, chatIds: [chatId] });
+    this.notify({ store: STORES.OUTBOX, chatIds: [chatId] });
+    this.notify({ store: STORES.SYNC_STATUS, keys: syncIds });
+  }
+
+  // Profiles operations
+  async saveProfile(profile: Profile): Promise<void> {
+    this.profiles.set(profile.id, copy(profile));
+    this.notify({ store: STORES.PROFILES, keys: [profile.id] });
+  }
+
+  async saveProfiles(profiles: Profile[]): Promise<void> {
+    if (profiles.length === 0) return;
+
+    profiles.forEach((profile) => this.profiles.set(profile.id, copy(profile)));
+    this.notify({ store: STORES.PROFILES, keys: profiles.map((profile) => profile.id) });
+  }
+
+  async getProfile(profileId: string): Promise<Profile | null> {
+    const profile = this.profiles.get(profileId);
+    return profile ? copy(profile) : null;
+  }
+
+  // Chat participants operations
+  async saveChatParticipant(participant: ChatParticipantRecord): Promise<void> {
+    if (!this.participants.has(participant.chat_id)) {
+      this.participants.set(participant.chat_id, new Map());
+    }
+    this.participants.get(participant.chat_id)!.set(participant.user_id, copy(participant));
+    this.notify({
+      store: STORES.CHAT_PARTICIPANTS,
+      keys: [[participant.chat_id, participant.user_id]],
+      chatIds: [participant.chat_id],
+    });
+  }
+
+  async getChatParticipants(chatId: string): Promise<ChatParticipantRecord[]> {
+    return Array.from(this.participants.get(chatId)?.values() || []).map(copy);
+  }
+
+  // Sync status operations
+  async getSyncStatus(type: SyncEntityType, scope: string = GLOBAL_SYNC_SCOPE): Promise<SyncStatus | null> {
+    const status = this.syncStatuses.get(syncStatusId(type, scope));
+    return status ? copy(status) : null;
+  }
+
+  async getSyncStatusesByType(type: SyncEntityType): Promise<SyncStatus[]> {
+    return Array.from(this.syncStatuses.values())
+      .filter((status) => status.type === type)
+      .map(copy);
+  }
+
+  async updateSyncStatus(
+    type: SyncEntityType,
+    scope: string = GLOBAL_SYNC_SCOPE,
+    lastSyncAt: string = new Date().toISOString()
+  ): Promise<void> {
+    const syncStatus: SyncStatus = {
+      id: syncStatusId(type, scope),
+      type,
+      scope,
+      lastSyncAt,
+      syncedAt: new Date().toISOString(),
+    };
+    this.syncStatuses.set(syncStatus.id, syncStatus);
+    this.notify({ store: STORES.SYNC_STATUS, keys: [syncStatus.id] });
+  }
+
+  async deleteSyncStatus(type: SyncEntityType, scope: string = GLOBAL_SYNC_SCOPE): Promise<void> {
+    this.syncStatuses.delete(syncStatusId(type, scope));
+    this.notify({ store: STORES.SYNC_STATUS, keys: [syncStatusId(type, scope)] });
+  }
+
+  // Outbox operations
+  async addOutboxEntry(entry: OutboxEntry): Promise<number> {
+    const seq = entry.seq ?? this.lastOutboxSeq + 1;
+    if (this.outbox.has(seq)) throw new Error("Outbox entry already exists");
+
+    this.lastOutboxSeq = Math.max(this.lastOutboxSeq, seq);
+    this.outbox.set(seq, { ...entry, seq });
+    this.notify({ store: STORES.OUTBOX, keys: [seq], chatIds: [entry.chat_id] });
+    return seq;
+  }
+
+  async getOutboxEntries(): Promise<OutboxEntry[]> {
+    return Array.from(this.outbox.values())
+      .sort((a, b) => a.seq! - b.seq!)
+      .map(copy);
+  }
+
+  async getOutboxEntriesForMessage(messageId: string): Promise<OutboxEntry[]> {
+    return (await this.getOutboxEntries()).filter((entry) => entry.message_id === messageId);
+  }
+
+  async updateOutboxEntry(seq: number, updates: Partial<OutboxEntry>): Promise<void> {
+    const existingEntry = this.outbox.get(seq);
+    if (!existingEntry) throw new Error("Outbox entry not found");
+
+    this.outbox.set(seq, { ...existingEntry, ...updates, seq });
+    this.notify({ store: STORES.OUTBOX, keys: [seq], chatIds: [existingEntry.chat_id] });
+  }
+
+  async deleteOutboxEntry(seq: number): Promise<void> {
+    this.outbox.delete(seq);
+    this.notify({ store: STORES.OUTBOX, keys: [seq] });
+  }
+
+  // Utility methods
+  async clearAllData(preserveOutboxForUserId?: string): Promise<void> {
+    const keptEntries = preserveOutboxForUserId
+      ? Array.from(this.outbox.values()).filter((entry) => entry.user_id === preserveOutboxForUserId)
+      : [];
+    const keptMessages = keptEntries
+      .filter((entry) => entry.kind === 'send')
+      .map((entry) => this.messages.get(entry.message_id))
+      .filter((message): message is Message => !!message);
+
+    this.messages = new Map(keptMessages.map((message) => [message.id, message]));
+    this.chats.clear();
+    this.profiles.clear();
+    this.participants.clear();
+    this.syncStatuses.clear();
+    this.outbox = new Map(keptEntries.map((entry) => [entry.seq!, entry]));
+
+    Object.values(STORES).forEach((store) => this.notify({ store }));
+  }
+
+  async getStorageInfo(): Promise<StorageInfo> {
+    return {
+      messagesCount: this.messages.size,
+      chatsCount: this.chats.size,
+      profilesCount: this.profiles.size,
+      usageBytes: null,
+      quotaBytes: null,
+    };
+  }
+}
+
+export { MemoryStorage };
@@ -0,0 +1,221 @@
+// Text handling for message search: the tokenizer that feeds the
+// search_index store, the snippets shown with results, and the query
+// operators of the search panel.
+
+interface Token {
+  // Folded form, as stored in the index
+  token: string;
+  // Offsets of the original word in the text
+  start: number;
+  end: number;
+}
+
+interface MatchRange {
+  start: number;
+  end: number;
+}
+
+interface Snippet {
+  text: string;
+  // Matched words, as offsets into `text`
+  matches: MatchRange[];
+}
+
+// Narrows a search beyond its words. Empty lists mean no restriction; dates
+// are ISO timestamps, messages created before `before` and from `after` on.
+interface MessageSearchFilters {
+  chatIds?: string[];
+  senderIds?: string[];
+  hasAttachment?: boolean;
+  before?: string;
+  after?: string;
+}
+
+// A query as typed, split into its words and its operators. Operator values
+// are still names here; the caller resolves them to IDs.
+interface ParsedSearchQuery {
+  text: string;
+  from: string[];
+  in: string[];
+  hasAttachment: boolean;
+  // Start of the day given by `before:`, and of the day after `after:`
+  before: string | null;
+  after: string | null;
+  // Operators that could not be understood, shown back to the user
+  invalid: string[];
+}
+
+// Longer words are indexed by their first characters only
+const MAX_TOKEN_LENGTH = 32;
+const SNIPPET_LENGTH = 120;
+// Characters shown before the first match
+const SNIPPET_LEAD = 30;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+// `name:value` or `name:"quoted value"`
+const OPERATOR_PATTERN = /(?<!\S)(from|in|has|before|after):(?:"([^"]*)"|(\S+))/gi;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Lowercase and strip accents, so "Café" and "cafe" index the same
+function foldText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const token = foldText(match[0]).slice(0, MAX_TOKEN_LENGTH);
+    if (token) {
+      tokens.push({ token, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return tokens;
+}
+
+// Term frequencies of a message body, one index row per distinct token
+function termFrequencies(text: string): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  tokenize(text).forEach(({ token }) => {
+    frequencies.set(token, (frequencies.get(token) || 0) + 1);
+  });
+  return frequencies;
+}
+
+// Distinct folded query terms, longest first so the most selective range
+// is read first
+function queryTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query).map(({ token }) => token)))
+    .sort((a, b) => b.length - a.length);
+}
+
+// A window of the text around the first matching word, with every word
+// that starts with a query term marked
+function buildSnippet(text: string, terms: string[]): Snippet {
+  const ranges = tokenize(text)
+    .filter(({ token }) => terms.some((term) => token.startsWith(term)))
+    .map(({ start, end }) => ({ start, end }));
+
+  if (text.length <= SNIPPET_LENGTH) {
+    return { text, matches: ranges };
+  }
+
+  const firstMatch = ranges[0]?.start ?? 0;
+  const windowStart = Math.max(0, Math.min(firstMatch - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const windowEnd = Math.min(text.length, windowStart + SNIPPET_LENGTH);
+  const prefix = windowStart > 0 ? "…" : "";
+  const suffix = windowEnd < text.length ? "…" : "";
+
+  return {
+    text: prefix + text.slice(windowStart, windowEnd) + suffix,
+    matches: ranges
+      .filter(({ start, end }) => start >= windowStart && end <= windowEnd)
+      .map(({ start, end }) => ({
+        start: start - windowStart + prefix.length,
+        end: end - windowStart + prefix.length,
+      })),
+  };
+}
+
+// Local midnight of a YYYY-MM-DD day, `offsetDays` later
+function startOfDay(value: string, offsetDays = 0): string | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  // Date rolls 2024-02-30 over into March; reject it instead
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) return null;
+
+  date.setDate(day + offsetDays);
+  return date.toISOString();
+}
+
+// Split `from:ana in:"Team chat" has:attachment before:2024-05-01 budget`
+// into its operators and the remaining words
+function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    text: "",
+    from: [],
+    in: [],
+    hasAttachment: false,
+    before: null,
+    after: null,
+    invalid: [],
+  };
+
+  parsed.text = input.replace(OPERATOR_PATTERN, (operator, name: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? "").trim();
+
+    switch (name.toLowerCase()) {
+      case "from":
+        if (value) parsed.from.push(value);
+        break;
+      case "in":
+        if (value) parsed.in.push(value);
+        break;
+      case "has":
+        if (value.toLowerCase() === "attachment") {
+          parsed.hasAttachment = true;
+        } else {
+          parsed.invalid.push(operator);
+        }
+        break;
+      case "before":
+        parsed.before = startOfDay(value);
+        if (!parsed.before) parsed.invalid.push(operator);
+        break;
+      case "after":
+        parsed.after = startOfDay(value, 1);
+        if (!parsed.after) parsed.invalid.push(operator);
+        break;
+    }
+    return " ";
+  }).replace(/\s+/g, " ").trim();
+
+  return parsed;
+}
+
+function hasSearchFilters(filters: MessageSearchFilters): boolean {
+  return !!(filters.chatIds?.length || filters.senderIds?.length || filters.hasAttachment
+    || filters.before || filters.after);
+}
+
+function matchesSearchFilters(
+  message: { chat_id: string; user_id: string; type: string; created_at: string },
+  filters: MessageSearchFilters
+): boolean {
+  if (filters.chatIds?.length && !filters.chatIds.includes(message.chat_id)) return false;
+  if (filters.senderIds?.length && !filters.senderIds.includes(message.user_id)) return false;
+  if (filters.hasAttachment && message.type !== "attachment") return false;
+
+  const createdAt = new Date(message.created_at).getTime();
+  if (filters.before && createdAt >= new Date(filters.before).getTime()) return false;
+  if (filters.after && createdAt < new Date(filters.after).getTime()) return false;
+  return true;
+}
+
+// Whether a stored message is still a hit, e.g. after a local edit: every
+// term starts one of its words and it passes the filters
+function matchesSearch(
+  message: { content: string | null; deleted_at?: string | null; chat_id: string; user_id: string; type: string; created_at: string },
+  terms: string[],
+  filters: MessageSearchFilters
+): boolean {
+  if (message.deleted_at || !matchesSearchFilters(message, filters)) return false;
+
+  const words = tokenize(message.content || "").map(({ token }) => token);
+  return terms.every((term) => words.some((word) => word.startsWith(term)));
+}
+
+export {
+  foldText,
+  tokenize,
+  termFrequencies,
+  queryTerms,
+  buildSnippet,
+  parseSearchQuery,
+  hasSearchFilters,
+  matchesSearchFilters,
+  matchesSearch,
+};
+export type { Token, MatchRange, Snippet, MessageSearchFilters, ParsedSearchQuery };
@@ -0,0 +1,376 @@
+import {
+  REALTIME_SUBSCRIBE_STATES,
+  type RealtimeChannel,
+  type RealtimePostgresChangesPayload,
+} from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+import { syncService } from "./sync-service";
+import { tabCoordinator } from "./tab-coordinator";
+
+type RealtimeConnectionState = "connecting" | "connected" | "disconnected";
+
+type RealtimeEvent = "*" | "INSERT" | "UPDATE" | "DELETE";
+
+interface RealtimeSubscription<T extends { [key: string]: any }> {
+  // Subscriptions with the same key share one channel
+  key: string;
+  table: string;
+  event?: RealtimeEvent;
+  filter?: string;
+  // Marks the chat as active: its events are tracked and gap-filled on reconnect
+  chatId?: string;
+  onChange: (payload: RealtimePostgresChangesPayload<T>) => void;
+  // Called after a dropped channel rejoins (and its chat has been gap-filled)
+  onReconnect?: () => void;
+}
+
+// What the leader tab needs to open a channel on another tab's behalf
+type RealtimeChannelDescriptor = Pick<RealtimeSubscription<any>, "key" | "table" | "filter" | "chatId">;
+
+interface ChannelEntry {
+  channel: RealtimeChannel;
+  descriptor: RealtimeChannelDescriptor;
+  state: RealtimeConnectionState;
+  // Set once the channel has dropped, or when it was opened on a leadership
+  // takeover, so the next join runs a gap-fill
+  dropped: boolean;
+  // Other tabs whose subscriptions this channel serves
+  relayTabs: Set<string>;
+}
+
+// Only the leader tab holds sockets. Other tabs forward their subscriptions
+// to it and get payloads, state and reconnects relayed back.
+const TOPICS = {
+  SUBSCRIBE: "realtime:subscribe",
+  UNSUBSCRIBE: "realtime:unsubscribe",
+  PAYLOAD: "realtime:payload",
+  STATE: "realtime:state",
+  RECONNECTED: "realtime:reconnected",
+} as const;
+
+// After a takeover, followers re-announce their channels; channels opened
+// for them within this window also catch up on the leaderless gap
+const TAKEOVER_CATCH_UP_MS = 10000;
+
+class RealtimeManager {
+  // This tab's subscribers, whichever tab holds the socket
+  private subscriptions: Map<string, Set<RealtimeSubscription<any>>> = new Map();
+  // Open channels; only ever populated in the leader tab
+  private channels: Map<string, ChannelEntry> = new Map();
+  // Commit timestamp of the last event received per active chat
+  private lastEventAt: Map<string, string> = new Map();
+  private stateListeners: Set<(state: RealtimeConnectionState) => void> = new Set();
+  // Connection state as last reported by the leader, while this tab follows
+  private leaderState: RealtimeConnectionState = "connected";
+  private onlineListenerAttached = false;
+  // When this tab last became the leader
+  private takeoverAt = 0;
+  private coordinatorAttached = false;
+
+  subscribe<T extends { [key: string]: any }>(subscription: RealtimeSubscription<T>): () => void {
+    this.attachOnlineListener();
+    this.attachCoordinator();
+
+    let subscribers = this.subscriptions.get(subscription.key);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscriptions.set(subscription.key, subscribers);
+    }
+    subscribers.add(subscription);
+
+    if (tabCoordinator.isLeader()) {
+      this.ensureChannel(subscription);
+    } else {
+      this.announce(subscription);
+    }
+
+    return () => {
+      const current = this.subscriptions.get(subscription.key);
+      if (!current?.delete(subscription) || current.size > 0) return;
+
+      this.subscriptions.delete(subscription.key);
+      if (tabCoordinator.isLeader()) {
+        this.releaseChannel(subscription.key);
+      } else {
+        tabCoordinator.publish(TOPICS.UNSUBSCRIBE, { tabId: tabCoordinator.getTabId(), key: subscription.key });
+      }
+    };
+  }
+
+  // Aggregate state: connected only when every open channel is joined.
+  // Tabs that don't hold the sockets report the leader's state.
+  getConnectionState(): RealtimeConnectionState {
+    if (!tabCoordinator.isLeader()) return this.leaderState;
+
+    const states = Array.from(this.channels.values()).map((entry) => entry.state);
+    if (states.length === 0 || states.every((state) => state === "connected")) return "connected";
+    if (states.some((state) => state === "disconnected")) return "disconnected";
+    return "connecting";
+  }
+
+  onConnectionStateChange(listener: (state: RealtimeConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getLastEventAt(chatId: string): string | undefined {
+    return this.lastEventAt.get(chatId);
+  }
+
+  // Chats with an open channel in this tab, for this tab or a follower
+  getActiveChatIds(): string[] {
+    const chatIds = new Set<string>();
+    this.channels.forEach((entry) => {
+      if (entry.descriptor.chatId) chatIds.add(entry.descriptor.chatId);
+    });
+    return Array.from(chatIds);
+  }
+
+  // Close every channel, e.g. on sign out
+  destroy(): void {
+    if (!tabCoordinator.isLeader()) {
+      this.subscriptions.forEach((_, key) => {
+        tabCoordinator.publish(TOPICS.UNSUBSCRIBE, { tabId: tabCoordinator.getTabId(), key });
+      });
+    }
+    this.subscriptions.clear();
+    this.channels.forEach((entry, key) => this.closeChannel(key, entry));
+    this.lastEventAt.clear();
+  }
+
+  private ensureChannel(descriptor: RealtimeChannelDescriptor): ChannelEntry {
+    return this.channels.get(descriptor.key) || this.openChannel(descriptor);
+  }
+
+  // Close a channel once neither this tab nor any follower needs it
+  private releaseChannel(key: string): void {
+    const entry = this.channels.get(key);
+    if (entry && !this.subscriptions.has(key) && entry.relayTabs.size === 0) {
+      this.closeChannel(key, entry);
+    }
+  }
+
+  private openChannel(descriptor: RealtimeChannelDescriptor): ChannelEntry {
+    const entry: ChannelEntry = {
+      channel: supabase.channel(descriptor.key),
+      descriptor: {
+        key: descriptor.key,
+        table: descriptor.table,
+        filter: descriptor.filter,
+        chatId: descriptor.chatId,
+      },
+      state: "connecting",
+      dropped: false,
+      relayTabs: new Set(),
+    };
+
+    entry.channel
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: descriptor.table,
+          filter: descriptor.filter,
+        },
+        (payload) => this.handleChange(entry, payload)
+      )
+      .subscribe((status, err) => this.handleStatus(descriptor.key, entry, status, err));
+
+    this.channels.set(descriptor.key, entry);
+    this.emitState();
+    return entry;
+  }
+
+  private closeChannel(key: string, entry: ChannelEntry): void {
+    this.channels.delete(key);
+    const { chatId } = entry.descriptor;
+    if (chatId && !this.isChatActive(chatId)) {
+      this.lastEventAt.delete(chatId);
+    }
+    supabase.removeChannel(entry.channel);
+    this.emitState();
+  }
+
+  private handleChange(entry: ChannelEntry, payload: RealtimePostgresChangesPayload<any>): void {
+    const { key, chatId } = entry.descriptor;
+    if (chatId && payload.commit_timestamp) {
+      this.lastEventAt.set(chatId, payload.commit_timestamp);
+    }
+
+    this.dispatch(key, payload);
+    if (entry.relayTabs.size > 0) {
+      tabCoordinator.publish(TOPICS.PAYLOAD, { key, payload });
+    }
+  }
+
+  private dispatch(key: string, payload: RealtimePostgresChangesPayload<any>): void {
+    this.subscriptions.get(key)?.forEach((subscription) => {
+      const event = subscription.event || "*";
+      if (event === "*" || event === payload.eventType) {
+        subscription.onChange(payload);
+      }
+    });
+  }
+
+  private handleStatus(
+    key: string,
+    entry: ChannelEntry,
+    status: `${REALTIME_SUBSCRIBE_STATES}`,
+    err?: Error
+  ): void {
+    // Ignore late callbacks from a channel that has been closed
+    if (this.channels.get(key) !== entry) return;
+
+    if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+      entry.state = "connected";
+      this.emitState();
+
+      if (entry.dropped) {
+        entry.dropped = false;
+        console.log("Realtime channel rejoined, filling gap:", key);
+        this.fillGap(entry);
+      }
+      return;
+    }
+
+    console.warn("Realtime channel dropped:", key, status, err);
+    entry.state = "disconnected";
+    entry.dropped = true;
+    this.emitState();
+  }
+
+  // Pull everything the channel may have missed while it was down
+  private async fillGap(entry: ChannelEntry): Promise<void> {
+    const { key, chatId } = entry.descriptor;
+    if (chatId) {
+      const since = this.lastEventAt.get(chatId);
+      const result = await syncService.syncMessages(chatId, false, since);
+      if (!result.success) {
+        console.error("Realtime gap-fill failed:", chatId, result.error);
+      }
+    }
+
+    this.notifyReconnect(key);
+    if (entry.relayTabs.size > 0) {
+      tabCoordinator.publish(TOPICS.RECONNECTED, { key });
+    }
+  }
+
+  private notifyReconnect(key: string): void {
+    this.subscriptions.get(key)?.forEach((subscription) => subscription.onReconnect?.());
+  }
+
+  private isChatActive(chatId: string): boolean {
+    return Array.from(this.channels.values()).some((entry) => entry.descriptor.chatId === chatId);
+  }
+
+  private emitState(): void {
+    const state = this.getConnectionState();
+    this.stateListeners.forEach((listener) => listener(state));
+    if (tabCoordinator.isLeader()) {
+      tabCoordinator.publish(TOPICS.STATE, { state });
+    }
+  }
+
+  // Ask the leader tab to serve one of this tab's subscriptions
+  private announce(subscription: RealtimeSubscription<any>): void {
+    const descriptor: RealtimeChannelDescriptor = {
+      key: subscription.key,
+      table: subscription.table,
+      filter: subscription.filter,
+      chatId: subscription.chatId,
+    };
+    tabCoordinator.publish(TOPICS.SUBSCRIBE, { tabId: tabCoordinator.getTabId(), descriptor });
+  }
+
+  private attachCoordinator(): void {
+    if (this.coordinatorAttached || typeof window === "undefined") return;
+    this.coordinatorAttached = true;
+
+    tabCoordinator.subscribe<{ tabId: string; descriptor: RealtimeChannelDescriptor }>(
+      TOPICS.SUBSCRIBE,
+      ({ tabId, descriptor }) => {
+        if (!tabCoordinator.isLeader()) return;
+        const isNew = !this.channels.has(descriptor.key);
+        const entry = this.ensureChannel(descriptor);
+        entry.relayTabs.add(tabId);
+        if (isNew && Date.now() - this.takeoverAt < TAKEOVER_CATCH_UP_MS) {
+          entry.dropped = true;
+        }
+        // Let the new follower know where the connection stands
+        tabCoordinator.publish(TOPICS.STATE, { state: this.getConnectionState() });
+      }
+    );
+
+    tabCoordinator.subscribe<{ tabId: string; key: string }>(TOPICS.UNSUBSCRIBE, ({ tabId, key }) => {
+      if (!tabCoordinator.isLeader()) return;
+      this.channels.get(key)?.relayTabs.delete(tabId);
+      this.releaseChannel(key);
+    });
+
+    tabCoordinator.subscribe<{ key: string; payload: RealtimePostgresChangesPayload<any> }>(
+      TOPICS.PAYLOAD,
+      ({ key, payload }) => {
+        if (!tabCoordinator.isLeader()) this.dispatch(key, payload);
+      }
+    );
+
+    tabCoordinator.subscribe<{ state: RealtimeConnectionState }>(TOPICS.STATE, ({ state }) => {
+      if (tabCoordinator.isLeader() || state === this.leaderState) return;
+      this.leaderState = state;
+      this.stateListeners.forEach((listener) => listener(state));
+    });
+
+    tabCoordinator.subscribe<{ key: string }>(TOPICS.RECONNECTED, ({ key }) => {
+      if (!tabCoordinator.isLeader()) this.notifyReconnect(key);
+    });
+
+    tabCoordinator.onLeadershipChange((isLeader) => {
+      if (isLeader) {
+        // Take over the sockets for this tab; followers re-announce theirs.
+        // Events between the old leader's last heartbeat and now reached no
+        // one, so each channel gap-fills from the stored watermark once joined.
+        this.takeoverAt = Date.now();
+        this.subscriptions.forEach((subscribers) => {
+          const [first] = Array.from(subscribers);
+          if (first) this.ensureChannel(first).dropped = true;
+        });
+        this.emitState();
+        return;
+      }
+
+      // Lost leadership or a new leader appeared: hand our sockets over
+      // and make sure the leader serves this tab
+      this.channels.forEach((entry, key) => this.closeChannel(key, entry));
+      this.lastEventAt.clear();
+      this.subscriptions.forEach((subscribers) => {
+        const [first] = Array.from(subscribers);
+        if (first) this.announce(first);
+      });
+    });
+  }
+
+  // The socket rejoins on its own, but a network change is also a cue that
+  // events may have been missed, so gap-fill every active chat
+  private attachOnlineListener(): void {
+    if (this.onlineListenerAttached || typeof window === "undefined") return;
+    this.onlineListenerAttached = true;
+
+    window.addEventListener("online", () => {
+      // Channels that are still down fill their gap once they rejoin
+      this.channels.forEach((entry) => {
+        if (entry.state === "connected") {
+          this.fillGap(entry);
+        }
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const realtimeManager = new RealtimeManager();
+
+export type { RealtimeConnectionState, RealtimeSubscription };
@@ -0,0 +1,266 @@
+// Runs SyncService's jobs against Supabase. Requests for a job that is
+// already running share its promise instead of starting another one.
+// Transient failures are retried with exponential backoff and jitter, auth
+// failures once after a session refresh, and permanent ones not at all.
+// After repeated transient failures a circuit breaker stops calling Supabase
+// for a while, then lets a single job through to probe it.
+
+// 'cancelled': given up by reset(), e.g. on sign-out, not by the server
+type SyncErrorKind = 'auth' | 'transient' | 'permanent' | 'cancelled';
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface RetryPolicy {
+  // Including the first attempt
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+interface SyncSchedulerOptions {
+  retry?: Partial<RetryPolicy>;
+  // Consecutive transient failures that open the circuit
+  failureThreshold?: number;
+  // How long an open circuit rejects jobs before letting a probe through
+  cooldownMs?: number;
+  // Called on an auth failure; resolve true when the session was renewed
+  // and the job is worth another try
+  onAuthError?: () => Promise<boolean>;
+}
+
+// A Supabase error as returned by postgrest-js, storage-js or auth-js
+interface SupabaseErrorLike {
+  message: string;
+  code?: string;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+// Postgres error classes worth retrying: connection exceptions, transaction
+// rollbacks (serialization failures, deadlocks), insufficient resources and
+// operator intervention (cancelled queries, shutdowns)
+const TRANSIENT_SQLSTATE_CLASSES = ['08', '40', '53', '57'];
+// PostgREST's JWT errors, PGRST301 and on
+const AUTH_ERROR_CODE = /^PGRST3\d\d$/;
+// How postgrest-js reports a fetch that never got a response
+const NETWORK_ERROR_MESSAGE = /^(TypeError|FetchError|AbortError)\b|failed to fetch|network|timed? ?out/i;
+
+class SyncError extends Error {
+  constructor(
+    message: string,
+    readonly kind: SyncErrorKind,
+    // HTTP status of the failed request; 0 when it never got a response
+    readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = "SyncError";
+  }
+}
+
+function classifyStatus(status: number): SyncErrorKind | null {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 0 || status === 408 || status === 425 || status === 429 || status >= 500) return 'transient';
+  if (status >= 400) return 'permanent';
+  return null;
+}
+
+function classifySyncError(error: unknown): SyncErrorKind {
+  if (error instanceof SyncError) return error.kind;
+  // fetch rejects with a TypeError when the network is down
+  if (error instanceof TypeError) return 'transient';
+  if (typeof navigator !== "undefined" && !navigator.onLine) return 'transient';
+  if (typeof error !== "object" || error === null) return 'permanent';
+
+  const { status, statusCode, code, message, name } = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    code?: unknown;
+    message?: unknown;
+    name?: unknown;
+  };
+
+  // auth-js and storage-js errors carry their HTTP status
+  const httpStatus = typeof status === "number" ? status : Number(statusCode);
+  const byStatus = Number.isFinite(httpStatus) ? classifyStatus(httpStatus) : null;
+  if (byStatus) return byStatus;
+
+  if (typeof code === "string" && code) {
+    if (AUTH_ERROR_CODE.test(code)) return 'auth';
+    if (TRANSIENT_SQLSTATE_CLASSES.includes(code.slice(0, 2))) return 'transient';
+    return 'permanent';
+  }
+
+  if (name === "StorageUnknownError" || name === "AuthRetryableFetchError") return 'transient';
+  if (typeof message === "string" && NETWORK_ERROR_MESSAGE.test(message)) return 'transient';
+  return 'permanent';
+}
+
+// Whether the error is the server's answer: an HTTP status, or a PostgREST
+// or SQLSTATE code. Local failures say nothing about whether it is up.
+function isServerResponse(error: unknown): boolean {
+  if (error instanceof SyncError) return !!error.status;
+  if (typeof error !== "object" || error === null) return false;
+
+  const { status, statusCode, code } = error as { status?: unknown; statusCode?: unknown; code?: unknown };
+  const httpStatus = typeof status === "number" ? status : Number(statusCode);
+  return (Number.isFinite(httpStatus) && httpStatus > 0) || (typeof code === "string" && code !== "");
+}
+
+// A SyncError for a failed Supabase request. `status` is the response's HTTP
+// status where the caller has it; the error's code decides otherwise.
+function supabaseSyncError(context: string, error: SupabaseErrorLike, status?: number): SyncError {
+  const kind = (status !== undefined ? classifyStatus(status) : null) || classifySyncError(error);
+  return new SyncError(`${context}: ${error.message}`, kind, status ?? null);
+}
+
+// "Full jitter": anywhere between zero and the exponential delay, so tabs
+// and devices that failed together don't retry together
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+class SyncScheduler {
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private retryPolicy: RetryPolicy;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private onAuthError?: () => Promise<boolean>;
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  // Set while the one job allowed through a half-open circuit runs
+  private probing = false;
+  // Bumped by reset(); jobs waiting out a backoff from before give up
+  private generation = 0;
+
+  constructor(options: SyncSchedulerOptions = {}) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.onAuthError = options.onAuthError;
+  }
+
+  // Run `job` under `key`, or join the run already in flight for that key
+  run<T>(key: string, job: () => Promise<T>, retry: Partial<RetryPolicy> = {}): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing as Promise<T>;
+
+    const promise = this.execute(key, job, { ...this.retryPolicy, ...retry }).finally(() => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  // Forget running jobs and close the circuit, e.g. on sign-out. Jobs
+  // waiting to retry give up instead.
+  reset(): void {
+    this.generation++;
+    this.inFlight.clear();
+    this.consecutiveFailures = 0;
+    this.probing = false;
+    this.circuit = 'closed';
+  }
+
+  private async execute<T>(key: string, job: () => Promise<T>, policy: RetryPolicy): Promise<T> {
+    const generation = this.generation;
+    let authRetried = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const probe = this.admit();
+
+      let error: unknown;
+      try {
+        const result = await job();
+        this.recordSuccess();
+        return result;
+      } catch (caught) {
+        error = caught;
+      }
+
+      const kind = classifySyncError(error);
+      if (kind === 'transient') {
+        this.recordFailure();
+      } else if (isServerResponse(error)) {
+        // The server answered, so it is up
+        this.recordSuccess();
+      } else if (probe) {
+        // Says nothing about the server; the next job probes instead
+        this.probing = false;
+      }
+
+      if (kind === 'auth' && !authRetried && this.onAuthError) {
+        authRetried = true;
+        const renewed = await this.onAuthError().catch(() => false);
+        if (renewed) {
+          console.warn(`Sync ${key} was unauthorized; retrying with a refreshed session`);
+          continue;
+        }
+      }
+
+      if (kind !== 'transient' || attempt >= policy.maxAttempts || this.circuit !== 'closed') {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, policy);
+      console.warn(`Sync ${key} failed (attempt ${attempt} of ${policy.maxAttempts}), retrying in ${delay}ms:`, error);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      if (generation !== this.generation) {
+        throw new SyncError("Sync was cancelled", 'cancelled');
+      }
+    }
+  }
+
+  // Throws while the circuit is open, and lets one probe through once the
+  // cooldown has passed. Returns whether this job is that probe.
+  private admit(): boolean {
+    if (this.circuit === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.circuit = 'half-open';
+    }
+
+    if (this.circuit === 'open' || (this.circuit === 'half-open' && this.probing)) {
+      throw new SyncError("Sync is paused while Supabase is unreachable", 'transient');
+    }
+    if (this.circuit === 'half-open') {
+      this.probing = true;
+      return true;
+    }
+    return false;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.probing = false;
+    if (this.circuit !== 'closed') {
+      console.log("Supabase is reachable again; sync resumed");
+      this.circuit = 'closed';
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+
+    // A failed probe opens the circuit again for another cooldown
+    if (this.probing || this.consecutiveFailures >= this.failureThreshold) {
+      this.probing = false;
+      this.openedAt = Date.now();
+      if (this.circuit !== 'open') {
+        console.warn(`Supabase looks unreachable; pausing sync for ${Math.round(this.cooldownMs / 1000)}s`);
+        this.circuit = 'open';
+      }
+    }
+  }
+}
+
+export { SyncScheduler, SyncError, classifySyncError, supabaseSyncError };
+export type { SyncErrorKind, RetryPolicy, SyncSchedulerOptions };
@@ -1,524 +1,1692 @@
+import { type RealtimePostgresChangesPayload } from "@supabase/supabase-js";
 import { supabase } from "./supabase";
-import { indexedDBService, type Message, type Chat, type Profile } from "./indexeddb";
+import {
+  indexedDBService,
+  GLOBAL_SYNC_SCOPE,
+  HISTORY_START,
+  withDeliveryStatus,
+  compareChatsByActivity,
+  type Message,
+  type MessageRead,
+  type MessageSyncStatus,
+  type Chat,
+  type ChatSummary,
+  type Profile,
+  type OutboxEntry,
+  type OutboxAttachment,
+  type SyncStatus,
+  type MessageSearchResult,
+  type DBChange,
+} from "./indexeddb";
+import { MemoryStorage } from "./memory-storage";
+import type { ChatStorage, StorageInfo } from "./chat-storage";
+import { Database } from "./database.types";
+import { tabCoordinator } from "./tab-coordinator";
+import { SyncScheduler, classifySyncError, supabaseSyncError, type SyncErrorKind } from "./sync-scheduler";
+import { queryTerms, buildSnippet, hasSearchFilters, matchesSearch, type MessageSearchFilters } from "./message-search";
+
+type MessageRow = Database["public"]["Tables"]["messages"]["Row"];
+type MessageReadRow = Database["public"]["Tables"]["message_reads"]["Row"];
+type ChatSummaryRow = Database["public"]["Functions"]["get_chat_summaries"]["Returns"][number];
+type InboxRow = Database["public"]["Functions"]["get_inbox"]["Returns"][number];
+type SearchRow = Database["public"]["Functions"]["search_messages"]["Returns"][number];
 
 interface SyncResult {
   success: boolean;
   error?: string;
+  // Set on failure: whether it was the session, a passing outage, a
+  // request that will keep failing, or a sign-out cancelling it
+  errorKind?: SyncErrorKind;
   synced: number;
 }
 
+// When each entity type was last synced, with the cache's size
+interface SyncInfo {
+  messages?: { lastSyncAt: string };
+  chats?: { lastSyncAt: string };
+  profiles?: { lastSyncAt: string };
+  chatMessages: Record<string, { lastSyncAt: string }>;
+  storage: StorageInfo;
+}
+
+interface MessagePage {
+  messages: Message[];
+  // Whether older messages exist before the first one in `messages`
+  hasMore: boolean;
+}
+
+// Keyset position in the inbox: the last chat of the previous page
+interface InboxCursor {
+  lastMessageAt: string | null;
+  id: string;
+}
+
+interface InboxPage {
+  chats: Chat[];
+  // Whether more chats exist after the last one in `chats`
+  hasMore: boolean;
+}
+
+// Keyset position in search results: the last hit of the previous page
+interface MessageSearchCursor {
+  createdAt: string;
+  id: string;
+}
+
+interface MessageSearchPage {
+  results: MessageSearchResult[];
+  // Null on the last page
+  nextCursor: MessageSearchCursor | null;
+}
+
+interface OutboxFlushResult {
+  flushed: number;
+  failed: number;
+  remaining: number;
+  // Server copies of sent messages, keyed by their optimistic temp ID
+  sent: Map<string, Message>;
+}
+
+// A realtime payload reduced to what a message list needs to apply
+type MessageChange =
+  | { type: "upsert"; message: Message }
+  | { type: "delete"; messageId: string };
+
+// A sync in this or another tab wrote a chat's messages to the cache;
+// listeners re-read them from storage. Other stores are followed through
+// ChatStorage.onChange instead.
+type CacheChange = { type: "messages"; chatId: string };
+
+// Cross-tab topics; the leader tab syncs, every tab hears what changed
+const TAB_TOPICS = {
+  MESSAGE_CHANGE: "sync:message-change",
+  CHAT_SUMMARIES: "sync:chat-summaries",
+  CACHE_CHANGE: "sync:cache-change",
+  SYNC_REQUEST: "sync:request",
+} as const;
+
+type SyncRequest =
+  | { type: "messages"; chatId: string }
+  | { type: "chats"; userId: string };
+
+// Content of an attachment message; fileUrl stays empty until the upload lands
+function attachmentContent(attachment: OutboxAttachment, fileUrl: string): string {
+  return JSON.stringify({
+    fileName: attachment.fileName,
+    fileUrl,
+    fileSize: attachment.file.size,
+    fileType: attachment.file.type,
+    originalSize: attachment.originalSize,
+  });
+}
+
+// Postgres unique_violation, raised when a send is retried with the same client_id
+const UNIQUE_VIOLATION = "23505";
+
+// Messages fetched per history page
+const MESSAGE_PAGE_SIZE = 50;
+
+// Chats fetched per inbox page
+const INBOX_PAGE_SIZE = 50;
+
+// Incremental syncs re-read a few seconds before the watermark so rows
+// committed slightly out of timestamp order are not skipped
+const SYNC_OVERLAP_MS = 5000;
+
+// Chats whose messages syncAllMessages fetches at the same time
+const MESSAGE_SYNC_CONCURRENCY = 4;
+
+// The outbox blocks on its oldest entry, so its retries give up sooner and
+// leave the entry failed for the next flush
+const OUTBOX_RETRY_POLICY = { maxAttempts: 3, maxDelayMs: 8000 };
+
+// Search hits per page, merged from the cache and the server
+const SEARCH_PAGE_SIZE = 20;
+// Cached hits considered per page; the cache is searched again for each page
+const LOCAL_SEARCH_LIMIT = 500;
+
+// Message rows with the sender's profile and every read receipt. Columns are
+// named so the server-only search_vector isn't downloaded.
+const MESSAGE_SELECT = `
+  id, chat_id, user_id, content, created_at, is_read, read_at, type,
+  updated_at, deleted_at, client_id, delivered_at,
+  profiles(*),
+  message_reads(user_id, read_at, profiles(full_name, avatar_url))
+`;
+
+// Realtime sends whole rows, including the server-only search_vector
+function messageColumns(row: MessageRow): MessageRow {
+  const columns: MessageRow & { search_vector?: unknown } = { ...row };
+  delete columns.search_vector;
+  return columns;
+}
+
+function withSyncOverlap(watermark: string): string {
+  return new Date(new Date(watermark).getTime() - SYNC_OVERLAP_MS).toISOString();
+}
+
+// Newest value of a timestamp column, used as the next sync watermark.
+// Falls back to "now" when no row carries the column.
+function latestTimestamp<T>(rows: T[], field: keyof T): string {
+  let latest: string | null = null;
+  for (const row of rows) {
+    const value = row[field] as unknown as string | null | undefined;
+    if (value && (!latest || new Date(value).getTime() > new Date(latest).getTime())) {
+      latest = value;
+    }
+  }
+  return latest || new Date().toISOString();
+}
+
+// Apply a realtime change to an ascending list of messages
+function reduceMessages(messages: Message[], change: MessageChange): Message[] {
+  if (change.type === "delete") {
+    return messages.filter((message) => message.id !== change.messageId);
+  }
+
+  const message = withDeliveryStatus(change.message);
+  const index = messages.findIndex((existing) => existing.id === message.id);
+  if (index !== -1) {
+    const next = [...messages];
+    next[index] = withDeliveryStatus({ ...messages[index], ...change.message });
+    return next;
+  }
+
+  // The server copy of an optimistic send replaces it outright
+  if (message.client_id) {
+    const optimisticIndex = messages.findIndex((existing) => existing.client_id === message.client_id);
+    if (optimisticIndex !== -1) {
+      const next = [...messages];
+      next[optimisticIndex] = message;
+      return next;
+    }
+  }
+
+  // New rows almost always belong at the end; walk back to keep order otherwise
+  const createdAt = new Date(message.created_at).getTime();
+  let insertAt = messages.length;
+  while (insertAt > 0 && new Date(messages[insertAt - 1].created_at).getTime() > createdAt) {
+    insertAt--;
+  }
+  return [...messages.slice(0, insertAt), message, ...messages.slice(insertAt)];
+}
+
+// Whether a user has a read receipt on a message
+function isReadBy(message: Message, userId: string): boolean {
+  return !!message.message_reads?.some((read) => read.user_id === userId);
+}
+
+// Set a chat's summary in a chat list, keeping the list newest first
+function reduceChatSummary(chats: Chat[], chatId: string, summary: ChatSummary): Chat[] {
+  const lastMessageAt = summary.last_message?.created_at;
+  const next = chats.map((chat) => {
+    if (chat.id !== chatId) return chat;
+    const isNewer = !!lastMessageAt
+      && (!chat.last_message_at || new Date(lastMessageAt).getTime() > new Date(chat.last_message_at).getTime());
+    return { ...chat, summary, last_message_at: isNewer ? lastMessageAt : chat.last_message_at };
+  });
+
+  return next.sort(compareChatsByActivity);
+}
+
+function toChatSummary(row: Pick<ChatSummaryRow, "unread_count" | "last_message">): ChatSummary {
+  return {
+    unread_count: row.unread_count,
+    last_message: row.last_message ? withDeliveryStatus(row.last_message as unknown as Message) : null,
+  };
+}
+
+// An inbox row carries the chat, its membership and its summary at once
+function toInboxChat(row: InboxRow): Chat {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    created_at: row.created_at,
+    created_by: row.created_by,
+    tags: row.tags,
+    last_message_at: row.last_message_at,
+    updated_at: row.updated_at,
+    chat_participants: row.chat_participants as unknown as Chat["chat_participants"],
+    summary: toChatSummary(row),
+  };
+}
+
+// Newest first, by creation time then ID, like the search_messages RPC
+function compareByRecency(
+  a: Pick<Message, "created_at" | "id">,
+  b: Pick<Message, "created_at" | "id">
+): number {
+  const aTime = new Date(a.created_at).getTime();
+  const bTime = new Date(b.created_at).getTime();
+  if (aTime !== bTime) return bTime - aTime;
+  if (a.id === b.id) return 0;
+  return b.id > a.id ? 1 : -1;
+}
+
+// Add or replace one reader's receipt
+function withReadReceipt(message: Message, read: MessageRead): Message {
+  const otherReads = (message.message_reads || []).filter((existing) => existing.user_id !== read.user_id);
+  return withDeliveryStatus({ ...message, message_reads: [...otherReads, read] });
+}
+
+// Let the scheduler retry an unauthorized sync once the token is renewed
+async function refreshSession(): Promise<boolean> {
+  const { data, error } = await supabase.auth.refreshSession();
+  return !error && !!data.session;
+}
+
 class SyncService {
-  private syncInProgress: Set<string> = new Set();
   private syncTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private outboxQueue: Promise<unknown> = Promise.resolve();
+  private outboxListeners: Set<(result: OutboxFlushResult) => void> = new Set();
+  private messageListeners: Set<(chatId: string, change: MessageChange) => void> = new Set();
+  private chatSummaryListeners: Set<(chatId: string, summary: ChatSummary) => void> = new Set();
+  private cacheChangeListeners: Set<(change: CacheChange) => void> = new Set();
+  private coordinatorAttached = false;
+  // Reconnect handling, shared by every view in the tab that asks for it
+  private connectivityUserId: string | null = null;
+  private connectivityUsers = 0;
+  private detachConnectivity: (() => void) | null = null;
+  // Set while offline; a full sync runs on reconnect
+  private offlineSyncPending = false;
+  private offlineSyncListeners: Set<(pending: boolean) => void> = new Set();
+
+  constructor(
+    private storage: ChatStorage,
+    private scheduler: SyncScheduler = new SyncScheduler({ onAuthError: refreshSession })
+  ) {}
+
+  // Messages sync. `since` overrides the stored watermark, e.g. to gap-fill
+  // from the last realtime event after a reconnect.
+  async syncMessages(chatId: string, force = false, since?: string): Promise<SyncResult> {
+    // Only requests for the same pull share a run
+    const syncKey = `messages-${chatId}:${force ? "force" : since || "watermark"}`;
+    return this.runSync(syncKey, "Message sync error:", () => this.pullMessages(chatId, force, since));
+  }
 
-  // Messages sync
-  async syncMessages(chatId: string, force = false): Promise<SyncResult> {
-    const syncKey = `messages-${chatId}`;
-    
-    if (this.syncInProgress.has(syncKey) && !force) {
-      return { success: false, error: "Sync already in progress", synced: 0 };
+  private async pullMessages(chatId: string, force: boolean, since?: string): Promise<number> {
+    // Get this chat's watermark
+    const lastSync = await this.storage.getSyncStatus('messages', chatId);
+
+    // Without a watermark only the newest page is pulled; older history is
+    // paged in on demand through getMessagesPage
+    if (force || !lastSync?.lastSyncAt) {
+      const latestPage = await this.loadLatestPage(chatId);
+      if (latestPage.messages.length > 0) {
+        this.emitCacheChange({ type: "messages", chatId });
+      }
+      return latestPage.messages.length;
+    }
+
+    // Fetch every message inserted, edited or deleted since the watermark
+    const { data: remoteMessages, error, status } = await supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("chat_id", chatId)
+      .gte("updated_at", withSyncOverlap(since || lastSync.lastSyncAt))
+      .order("updated_at", { ascending: true });
+
+    if (error) {
+      throw supabaseSyncError("Failed to fetch messages", error, status);
+    }
+
+    if (remoteMessages && remoteMessages.length > 0) {
+      // The overlap re-reads rows we already have; only real changes are announced
+      const changed = await this.differsFromCache(remoteMessages as unknown as Message[]);
+      await this.applyRemoteMessages(chatId, remoteMessages as unknown as Message[]);
+      if (changed) {
+        this.emitCacheChange({ type: "messages", chatId });
+      }
+
+      // Advance this chat's watermark to the newest change we received
+      const newest = latestTimestamp(remoteMessages, "updated_at");
+      if (new Date(newest).getTime() > new Date(lastSync.lastSyncAt).getTime()) {
+        await this.storage.updateSyncStatus('messages', chatId, newest);
+      }
+    }
+
+    return remoteMessages?.length || 0;
+  }
+
+  // Chats sync
+  async syncChats(userId: string, force = false): Promise<SyncResult> {
+    return this.runSync(`chats-${userId}:${force ? "force" : "watermark"}`, "Chat sync error:", async () => {
+      // Get this user's chats watermark
+      const lastSync = await this.storage.getSyncStatus('chats', userId);
+
+      // Only pull changed chats if not forcing full sync
+      const since = !force && lastSync?.lastSyncAt ? withSyncOverlap(lastSync.lastSyncAt) : null;
+      return this.pullInbox(userId, since);
+    });
+  }
+
+  // Profiles sync
+  async syncProfiles(force = false): Promise<SyncResult> {
+    return this.runSync(`profiles:${force ? "force" : "watermark"}`, "Profile sync error:", () => this.pullProfiles(force));
+  }
+
+  private async pullProfiles(force: boolean): Promise<number> {
+    // Get last sync status
+    const lastSync = await this.storage.getSyncStatus('profiles');
+
+    // Fetch profiles from Supabase
+    let query = supabase
+      .from("profiles")
+      .select("*");
+
+    // Only fetch updated profiles if not forcing full sync
+    if (!force && lastSync?.lastSyncAt) {
+      query = query.gte("created_at", lastSync.lastSyncAt);
+    }
+
+    const { data: remoteProfiles, error, status } = await query;
+
+    if (error) {
+      throw supabaseSyncError("Failed to fetch profiles", error, status);
+    }
+
+    if (remoteProfiles && remoteProfiles.length > 0) {
+      // Store profiles in IndexedDB
+      await this.storage.saveProfiles(remoteProfiles as Profile[]);
+
+      // Update sync status
+      await this.storage.updateSyncStatus(
+        'profiles',
+        GLOBAL_SYNC_SCOPE,
+        latestTimestamp(remoteProfiles, "created_at")
+      );
+    }
+
+    return remoteProfiles?.length || 0;
+  }
+
+  // Run a sync through the scheduler: retried while failures are transient,
+  // and shared with any caller asking for the same sync meanwhile
+  private async runSync(key: string, label: string, job: () => Promise<number>): Promise<SyncResult> {
+    try {
+      const synced = await this.scheduler.run(key, job);
+      return { success: true, synced };
+    } catch (error) {
+      console.error(label, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorKind: classifySyncError(error),
+        synced: 0,
+      };
     }
+  }
 
-    this.syncInProgress.add(syncKey);
+  // Hybrid data loading: try IndexedDB first, then Supabase
+  async getMessages(chatId: string): Promise<Message[]> {
+    const { messages } = await this.getMessagesPage(chatId, null);
+    return messages;
+  }
 
+  // Cursor-based history: up to `limit` messages created before `before`
+  // (the newest page when null), in ascending order. Served from IndexedDB
+  // when the cached range is known to be complete, otherwise from Supabase.
+  async getMessagesPage(chatId: string, before: string | null, limit = MESSAGE_PAGE_SIZE): Promise<MessagePage> {
     try {
-      // Get last sync status
-      const lastSync = await indexedDBService.getSyncStatus('messages');
+      const history = await this.storage.getSyncStatus('message_history', chatId);
+      const floor = history ? history.lastSyncAt : null;
+      const covered = floor !== null && (before === null || before > floor);
+
+      if (covered) {
+        const cachedMessages = await this.storage.getMessagesPage(chatId, before, limit, floor);
+
+        if (cachedMessages.length === limit || floor === HISTORY_START) {
+          if (before === null) {
+            // Start background sync for fresh data
+            this.scheduleSyncMessages(chatId);
+          }
+          return { messages: cachedMessages, hasMore: cachedMessages.length === limit };
+        }
+      }
+
+      if (before === null) {
+        return await this.loadLatestPage(chatId, limit);
+      }
+
+      // Older than what the cache covers: fetch from Supabase
+      const remoteMessages = await this.fetchMessagesPage(chatId, before, limit);
+
+      try {
+        await this.storage.saveMessages(remoteMessages);
+
+        // The cache now runs contiguously down to the oldest fetched message
+        if (covered) {
+          await this.storage.updateSyncStatus(
+            'message_history',
+            chatId,
+            remoteMessages.length < limit ? HISTORY_START : remoteMessages[0].created_at
+          );
+        }
+      } catch (cacheError) {
+        console.warn("Failed to cache messages:", cacheError);
+        // Continue without caching
+      }
+
+      return { messages: remoteMessages, hasMore: remoteMessages.length === limit };
+
+    } catch (error) {
+      console.error("Error getting messages page:", error);
       
-      // Fetch messages from Supabase
-      let query = supabase
-        .from("messages")
-        .select("*, profiles(*)")
-        .eq("chat_id", chatId)
-        .order("created_at", { ascending: true });
+      // If IndexedDB fails entirely, fetch directly from Supabase
+      try {
+        const fallbackMessages = await this.fetchMessagesPage(chatId, before, limit);
+        return { messages: fallbackMessages, hasMore: fallbackMessages.length === limit };
+      } catch (fallbackError) {
+        console.error("Fallback fetch also failed:", fallbackError);
+        return { messages: [], hasMore: false };
+      }
+    }
+  }
+
+  // Fetch the newest page from Supabase and make it the start of the chat's
+  // contiguous cached history
+  private async loadLatestPage(chatId: string, limit = MESSAGE_PAGE_SIZE): Promise<MessagePage> {
+    const remoteMessages = await this.fetchMessagesPage(chatId, null, limit);
+    const hasMore = remoteMessages.length === limit;
+
+    try {
+      await this.storage.saveMessages(await this.mergePendingMessages(chatId, remoteMessages));
+      await this.storage.updateSyncStatus(
+        'message_history',
+        chatId,
+        hasMore ? remoteMessages[0].created_at : HISTORY_START
+      );
 
-      // Only fetch newer messages if not forcing full sync
-      if (!force && lastSync?.lastSyncAt) {
-        query = query.gte("created_at", lastSync.lastSyncAt);
+      if (remoteMessages.length > 0) {
+        const lastSync = await this.storage.getSyncStatus('messages', chatId);
+        const newest = latestTimestamp(remoteMessages, "updated_at");
+        if (!lastSync || new Date(newest).getTime() > new Date(lastSync.lastSyncAt).getTime()) {
+          await this.storage.updateSyncStatus('messages', chatId, newest);
+        }
       }
 
-      const { data: remoteMessages, error } = await query;
+      // Re-read so queued optimistic messages are part of the page
+      const messages = await this.storage.getMessagesPage(
+        chatId,
+        null,
+        limit,
+        hasMore ? remoteMessages[0].created_at : HISTORY_START
+      );
+      return { messages, hasMore };
+    } catch (cacheError) {
+      console.warn("Failed to cache messages:", cacheError);
+      return { messages: remoteMessages, hasMore };
+    }
+  }
+
+  private async fetchMessagesPage(chatId: string, before: string | null, limit: number): Promise<Message[]> {
+    let query = supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("chat_id", chatId)
+      .is("deleted_at", null);
 
-      if (error) {
-        throw new Error(`Failed to fetch messages: ${error.message}`);
+    if (before !== null) {
+      query = query.lt("created_at", before);
+    }
+
+    const { data: remoteMessages, error, status } = await query
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw supabaseSyncError("Failed to fetch messages", error, status);
+    }
+
+    const messages = ((remoteMessages as unknown as Message[]) || []).reverse();
+    this.acknowledgeDelivery(messages);
+    return messages;
+  }
+
+  async getChats(userId: string): Promise<Chat[]> {
+    try {
+      // Try to get chats from IndexedDB first
+      const cachedChats = await this.storage.getChats();
+      
+      if (cachedChats.length > 0) {
+        // Start background sync for fresh data
+        this.scheduleSyncChats(userId);
+        return cachedChats;
       }
 
-      if (remoteMessages && remoteMessages.length > 0) {
-        // Store messages in IndexedDB
-        await indexedDBService.saveMessages(remoteMessages as Message[]);
-        
-        // Update sync status
-        await indexedDBService.updateSyncStatus('messages');
+      // If no cached chats, load the first inbox page directly
+      const { chats, serverTime } = await this.fetchInboxPage(null);
+      
+      // Cache the chats for future use (if IndexedDB is available)
+      if (chats.length > 0) {
+        try {
+          await this.storage.saveChats(chats);
+          if (serverTime) {
+            await this.storage.updateSyncStatus('chats', userId, serverTime);
+          }
+        } catch (cacheError) {
+          console.warn("Failed to cache chats:", cacheError);
+          // Continue without caching
+        }
       }
 
-      return { 
-        success: true, 
-        synced: remoteMessages?.length || 0 
-      };
+      return chats;
 
     } catch (error) {
-      console.error("Message sync error:", error);
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : "Unknown error",
-        synced: 0 
-      };
-    } finally {
-      this.syncInProgress.delete(syncKey);
+      console.error("Error getting chats:", error);
+      
+      // If IndexedDB fails entirely, fetch directly from Supabase
+      try {
+        const { chats } = await this.fetchInboxPage(null);
+        return chats;
+      } catch (fallbackError) {
+        console.error("Fallback fetch also failed:", fallbackError);
+        return [];
+      }
     }
   }
 
-  // Chats sync
-  async syncChats(userId: string, force = false): Promise<SyncResult> {
-    const syncKey = `chats-${userId}`;
-    
-    if (this.syncInProgress.has(syncKey) && !force) {
-      return { success: false, error: "Sync already in progress", synced: 0 };
+  // Older chats for the chat list, cached as they load
+  async getInboxPage(cursor: InboxCursor): Promise<InboxPage> {
+    const { chats, hasMore } = await this.fetchInboxPage(cursor);
+
+    try {
+      await this.storage.saveChats(chats);
+    } catch (cacheError) {
+      console.warn("Failed to cache inbox page:", cacheError);
+    }
+
+    return { chats, hasMore };
+  }
+
+  // Write one realtime INSERT/UPDATE/DELETE into the cache instead of
+  // refetching the chat. Returns the change for the caller's state.
+  async applyRealtimeChange(
+    payload: RealtimePostgresChangesPayload<MessageRow>
+  ): Promise<MessageChange | null> {
+    if (payload.eventType === "DELETE") {
+      const messageId = payload.old.id;
+      if (!messageId) return null;
+
+      await this.removeRealtimeMessage(messageId);
+      return { type: "delete", messageId };
+    }
+
+    const row = messageColumns(payload.new);
+
+    // Soft deletes arrive as updates carrying a tombstone
+    if (row.deleted_at) {
+      await this.removeRealtimeMessage(row.id);
+      return { type: "delete", messageId: row.id };
     }
 
-    this.syncInProgress.add(syncKey);
+    let message: Message = { ...row, profiles: await this.getProfileForUser(row.user_id) };
+    // Every tab hears the event; one acknowledgement is enough
+    if (payload.eventType === "INSERT" && tabCoordinator.isLeader()) {
+      this.acknowledgeDelivery([row]);
+    }
 
     try {
-      // Get last sync status
-      const lastSync = await indexedDBService.getSyncStatus('chats');
-      
-      // Fetch chats from Supabase
-      let query = supabase
-        .from("chats")
-        .select(`
-          *,
-          chat_participants(user_id, profiles(*))
-        `)
-        .in("id", await this.getUserChatIds(userId))
-        .order("last_message_at", { ascending: false });
+      // Our own send can echo back before its insert returns
+      if (row.client_id) {
+        await this.removeOptimisticCopies(row.client_id, row.id);
+      }
 
-      // Only fetch updated chats if not forcing full sync
-      if (!force && lastSync?.lastSyncAt) {
-        query = query.gte("last_message_at", lastSync.lastSyncAt);
+      // Realtime rows carry no embeds, so keep the receipts we already have.
+      // Queued local edits win over the server copy until they are flushed.
+      const cached = await this.storage.getMessage(row.id);
+      message = { ...message, message_reads: cached?.message_reads || [] };
+      if (cached?.sync_status) {
+        message = { ...message, ...cached };
       }
+      await this.storage.saveMessage(message);
+    } catch (cacheError) {
+      console.warn("Failed to cache realtime message:", cacheError);
+    }
 
-      const { data: remoteChats, error } = await query;
+    return { type: "upsert", message };
+  }
 
-      if (error) {
-        throw new Error(`Failed to fetch chats: ${error.message}`);
-      }
-
-      if (remoteChats && remoteChats.length > 0) {
-        // Store chats in IndexedDB
-        await indexedDBService.saveChats(remoteChats as Chat[]);
-
-        // Store chat participants and profiles
-        for (const chat of remoteChats) {
-          if (chat.chat_participants) {
-            for (const participant of chat.chat_participants) {
-              // Add chat_id to participant object for IndexedDB key path
-              const participantWithChatId = {
-                ...participant,
-                chat_id: chat.id
-              };
-              await indexedDBService.saveChatParticipant(participantWithChatId);
-              if (participant.profiles) {
-                await indexedDBService.saveProfile(participant.profiles);
-              }
-            }
-          }
+  private async removeRealtimeMessage(messageId: string): Promise<void> {
+    try {
+      await this.removeMessagesLocally([messageId]);
+    } catch (cacheError) {
+      console.warn("Failed to remove realtime message from cache:", cacheError);
+    }
+  }
+
+  // Attach a realtime read receipt to its cached message. Receipts for
+  // messages outside the cache are picked up when the message is loaded.
+  async applyReadReceipt(
+    payload: RealtimePostgresChangesPayload<MessageReadRow>
+  ): Promise<MessageChange | null> {
+    if (payload.eventType !== "INSERT") return null;
+
+    const row = payload.new;
+    try {
+      const cached = await this.storage.getMessage(row.message_id);
+      if (!cached) return null;
+
+      const profile = await this.getProfileForUser(row.user_id);
+      const message = withReadReceipt(cached, {
+        user_id: row.user_id,
+        read_at: row.read_at,
+        profiles: profile ? { full_name: profile.full_name, avatar_url: profile.avatar_url } : null,
+      });
+      await this.storage.saveMessage(message);
+      return { type: "upsert", message };
+    } catch (cacheError) {
+      console.warn("Failed to apply read receipt:", cacheError);
+      return null;
+    }
+  }
+
+  // Fetch summaries for the given chats (all of the user's chats when
+  // omitted), cache them and notify listeners
+  async refreshChatSummaries(chatIds?: string[]): Promise<Map<string, ChatSummary>> {
+    const summaries = await this.fetchChatSummaries(chatIds);
+
+    try {
+      await this.storage.saveChatSummaries(summaries);
+    } catch (cacheError) {
+      console.warn("Failed to cache chat summaries:", cacheError);
+    }
+
+    this.emitChatSummaries(summaries);
+    return summaries;
+  }
+
+  // Keep a chat's cached summary current from a realtime message event.
+  // New messages are counted locally; anything that may change the count
+  // otherwise (a delete) refetches that chat's summary.
+  async applyChatSummaryChange(
+    payload: RealtimePostgresChangesPayload<MessageRow>,
+    userId: string
+  ): Promise<void> {
+    // Hard deletes carry only the old ID, and tombstones arrive as updates
+    if (payload.eventType === "DELETE") return;
+
+    const row = messageColumns(payload.new);
+
+    try {
+      const chat = await this.storage.getChat(row.chat_id);
+      const summary = chat?.summary;
+
+      if (!summary || row.deleted_at) {
+        await this.refreshChatSummaries([row.chat_id]);
+        return;
+      }
+
+      let next: ChatSummary | null = null;
+      const lastMessage = summary.last_message;
+
+      if (payload.eventType === "INSERT") {
+        // Already counted, e.g. by another tab sharing this cache
+        if (lastMessage?.id === row.id) return;
+
+        const isNewer = !lastMessage
+          || lastMessage.client_id === row.client_id
+          || new Date(row.created_at).getTime() >= new Date(lastMessage.created_at).getTime();
+        next = {
+          unread_count: summary.unread_count + (row.user_id !== userId ? 1 : 0),
+          last_message: isNewer ? withDeliveryStatus(row) : lastMessage,
+        };
+        if (row.user_id !== userId && tabCoordinator.isLeader()) {
+          this.acknowledgeDelivery([row]);
         }
-        
-        // Update sync status
-        await indexedDBService.updateSyncStatus('chats');
+      } else if (lastMessage?.id === row.id) {
+        // Edits and delivery/read markers on the message being previewed
+        next = { ...summary, last_message: withDeliveryStatus({ ...lastMessage, ...row }) };
+      }
+
+      if (next) {
+        const summaries = new Map([[row.chat_id, next]]);
+        await this.storage.saveChatSummaries(summaries);
+        this.emitChatSummaries(summaries);
+      }
+    } catch (error) {
+      console.warn("Failed to apply realtime change to chat summary:", row.chat_id, error);
+    }
+  }
+
+  private async fetchChatSummaries(chatIds?: string[]): Promise<Map<string, ChatSummary>> {
+    const { data, error, status } = await supabase.rpc(
+      "get_chat_summaries",
+      chatIds ? { chat_ids: chatIds } : {}
+    );
+
+    if (error) {
+      throw supabaseSyncError("Failed to fetch chat summaries", error, status);
+    }
+
+    const rows: ChatSummaryRow[] = data || [];
+    const summaries = new Map(rows.map((row) => [row.chat_id, toChatSummary(row)]));
+    this.acknowledgeChatDelivery(summaries);
+    return summaries;
+  }
+
+  // One page of the inbox: chats with participants, last message and unread
+  // count. With `since`, only chats that changed after that watermark.
+  private async fetchInboxPage(
+    cursor: InboxCursor | null,
+    since: string | null = null,
+    limit = INBOX_PAGE_SIZE
+  ): Promise<InboxPage & { serverTime: string | null }> {
+    const { data, error, status } = await supabase.rpc("get_inbox", {
+      inbox_limit: limit,
+      cursor_at: cursor?.lastMessageAt ?? null,
+      cursor_id: cursor?.id ?? null,
+      updated_since: since,
+    });
+
+    if (error) {
+      throw supabaseSyncError("Failed to fetch inbox", error, status);
+    }
+
+    const rows: InboxRow[] = data || [];
+    const chats = rows.map(toInboxChat);
+    this.acknowledgeChatDelivery(new Map(chats.map((chat) => [chat.id, chat.summary as ChatSummary])));
+
+    return {
+      chats,
+      hasMore: rows.length === limit,
+      serverTime: rows[0]?.server_time ?? null,
+    };
+  }
+
+  // Pull the inbox into the cache: the first page on a cold or forced load,
+  // otherwise every chat that changed since the watermark. Older pages are
+  // loaded on demand through getInboxPage.
+  private async pullInbox(userId: string, since: string | null): Promise<number> {
+    // Current memberships decide which chats belong in the cache at all
+    const removed = await this.removeLeftChats(await this.getUserChatIds(userId));
+
+    let cursor: InboxCursor | null = null;
+    let serverTime: string | null = null;
+    let pulled = 0;
+
+    do {
+      const page: InboxPage & { serverTime: string | null } = await this.fetchInboxPage(cursor, since);
+      serverTime = serverTime || page.serverTime;
+
+      if (page.chats.length > 0) {
+        // Store chats, their full participant sets, profiles and summaries
+        await this.storage.saveChats(page.chats);
+        pulled += page.chats.length;
       }
 
-      return { 
-        success: true, 
-        synced: remoteChats?.length || 0 
+      const lastChat = page.chats[page.chats.length - 1];
+      cursor = since && page.hasMore ? { lastMessageAt: lastChat.last_message_at, id: lastChat.id } : null;
+    } while (cursor);
+
+    // The server's clock, so a skewed client clock can't skip changes
+    if (serverTime) {
+      await this.storage.updateSyncStatus('chats', userId, serverTime);
+    }
+
+    return pulled + removed;
+  }
+
+  // Profiles come from the cache; unknown users are fetched once and cached
+  private async getProfileForUser(userId: string): Promise<Profile | undefined> {
+    try {
+      const cached = await this.storage.getProfile(userId);
+      if (cached) return cached;
+    } catch {
+      // Fall through to the network
+    }
+
+    const { data: profile, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", userId)
+      .single();
+
+    if (error || !profile) {
+      console.warn("Failed to fetch profile for realtime change:", userId, error);
+      return undefined;
+    }
+
+    try {
+      await this.storage.saveProfile(profile);
+    } catch {
+      // Caching the profile is best effort
+    }
+    return profile;
+  }
+
+  // Optimistic updates for new messages. Every send - text or attachment,
+  // from any component - goes through here and the outbox.
+  async addMessageOptimistically(
+    message: Omit<Message, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'delivered_at' | 'client_id'> & {
+      client_id?: string | null;
+    },
+    attachment?: OutboxAttachment
+  ): Promise<Message> {
+    // The client_id is the send's idempotency key; callers retrying a send pass it back in
+    const clientId = message.client_id || crypto.randomUUID();
+    const now = new Date().toISOString();
+    const optimisticMessage: Message = {
+      ...message,
+      id: `temp-${clientId}`,
+      client_id: clientId,
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+      delivered_at: null,
+      sync_status: 'pending',
+    };
+
+    try {
+      // Save optimistically to IndexedDB and queue the insert
+      await this.storage.saveMessage(optimisticMessage);
+      await this.enqueueOutboxEntry('send', optimisticMessage, {
+        content: message.content,
+        type: message.type || 'text',
+        client_id: clientId,
+        attachment,
+      });
+    } catch (cacheError) {
+      // Without a local cache there is no outbox, so send directly
+      console.warn("Failed to queue message, sending directly:", cacheError);
+      try {
+        const content = attachment
+          ? attachmentContent(attachment, await this.uploadAttachment(message.chat_id, clientId, attachment))
+          : message.content;
+        const savedMessage = await this.insertMessage({
+          chat_id: message.chat_id,
+          user_id: message.user_id,
+          content,
+          type: message.type || 'text',
+          client_id: clientId,
+        });
+        this.emitMessageChange(message.chat_id, { type: "upsert", message: savedMessage });
+        return savedMessage;
+      } catch (error) {
+        console.error("Error adding message:", error);
+        return { ...optimisticMessage, sync_status: 'failed' };
+      }
+    }
+
+    // Show the message right away and move the chat to the top of the list
+    this.emitMessageChange(message.chat_id, { type: "upsert", message: optimisticMessage });
+    try {
+      const chat = await this.storage.getChat(message.chat_id);
+      const summary: ChatSummary = {
+        unread_count: chat?.summary?.unread_count ?? 0,
+        last_message: optimisticMessage,
       };
+      await this.storage.updateChat(message.chat_id, { last_message_at: now, summary });
+      this.emitChatSummaries(new Map([[message.chat_id, summary]]));
+    } catch {
+      // The server trigger sets last_message_at; the cache catches up on sync
+    }
 
-    } catch (error) {
-      console.error("Chat sync error:", error);
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : "Unknown error",
-        synced: 0 
+    const { sent } = await this.flushOutbox();
+    return sent.get(optimisticMessage.id)
+      || (await this.storage.getMessage(optimisticMessage.id))
+      || optimisticMessage;
+  }
+
+  // Queue an attachment: the file is kept in the outbox and uploaded on replay
+  async addAttachmentOptimistically(
+    message: { chat_id: string; user_id: string; client_id?: string | null },
+    attachment: OutboxAttachment
+  ): Promise<Message> {
+    return this.addMessageOptimistically(
+      {
+        ...message,
+        content: attachmentContent(attachment, ""),
+        type: 'attachment',
+        is_read: false,
+        read_at: null,
+      },
+      attachment
+    );
+  }
+
+  // Optimistic updates for editing messages
+  async updateMessageOptimistically(messageId: string, newContent: string): Promise<Message | null> {
+    console.log("syncService.updateMessageOptimistically - Updating message:", messageId, "with content:", newContent);
+
+    // Between outbox replays, so a send is either still queued and takes the
+    // edit, or has landed and the edit is queued against the row it created
+    const { message: updatedMessage, queued } = await this.withOutbox(async () => {
+      const currentMessage = await this.currentCopy(messageId);
+      if (!currentMessage) {
+        throw new Error("Message not found in cache");
+      }
+
+      const pendingSend = (await this.storage.getOutboxEntriesForMessage(currentMessage.id))
+        .find((entry) => entry.kind === 'send');
+
+      // The message has not reached the server yet: fold the edit into its send
+      if (pendingSend) {
+        await this.storage.updateOutboxEntry(pendingSend.seq!, {
+          payload: { ...pendingSend.payload, content: newContent },
+        });
+        const message: Message = { ...currentMessage, content: newContent };
+        await this.storage.saveMessage(message);
+        return { message, queued: false };
+      }
+
+      // Save optimistically to IndexedDB and queue the update
+      const message: Message = {
+        ...currentMessage,
+        content: newContent,
+        sync_status: 'pending',
       };
-    } finally {
-      this.syncInProgress.delete(syncKey);
+      await this.storage.saveMessage(message);
+      await this.enqueueOutboxEntry('edit', message, { content: newContent });
+      return { message, queued: true };
+    });
+    console.log("syncService.updateMessageOptimistically - Updated message in cache");
+
+    // The caller only knows the optimistic row the send replaced
+    if (updatedMessage.id !== messageId) {
+      this.emitMessageChange(updatedMessage.chat_id, { type: "upsert", message: updatedMessage });
     }
+    if (!queued) return updatedMessage;
+
+    await this.flushOutbox();
+    return (await this.storage.getMessage(updatedMessage.id)) || updatedMessage;
   }
 
-  // Profiles sync
-  async syncProfiles(force = false): Promise<SyncResult> {
-    const syncKey = 'profiles';
-    
-    if (this.syncInProgress.has(syncKey) && !force) {
-      return { success: false, error: "Sync already in progress", synced: 0 };
+  // Optimistic updates for deleting messages
+  async deleteMessageOptimistically(messageId: string): Promise<void> {
+    console.log("syncService.deleteMessageOptimistically - Deleting message:", messageId);
+
+    // Between outbox replays, so a send is either dropped before it goes out
+    // or has landed and its row is deleted on the server
+    const { message: deletedMessage, queued } = await this.withOutbox(async () => {
+      const message = await this.currentCopy(messageId);
+      if (!message) {
+        throw new Error("Message not found in cache");
+      }
+
+      const queuedEntries = await this.storage.getOutboxEntriesForMessage(message.id);
+      const pendingSend = queuedEntries.find((entry) => entry.kind === 'send');
+
+      // Delete optimistically from IndexedDB
+      await this.storage.deleteMessage(message.id);
+      console.log("syncService.deleteMessageOptimistically - Deleted message from cache");
+
+      // Never sent: dropping the queued writes is enough
+      if (pendingSend) {
+        await Promise.all(queuedEntries.map((entry) => this.storage.deleteOutboxEntry(entry.seq!)));
+        return { message, queued: false };
+      }
+
+      await this.enqueueOutboxEntry('delete', message, {});
+      return { message, queued: true };
+    });
+
+    if (deletedMessage.id !== messageId) {
+      this.emitMessageChange(deletedMessage.chat_id, { type: "delete", messageId: deletedMessage.id });
+    }
+    if (queued) {
+      await this.flushOutbox();
+    }
+  }
+
+  // Retry a failed message: its queued writes go back to pending and the
+  // outbox is flushed again
+  async retryMessage(messageId: string): Promise<Message | null> {
+    const queuedEntries = await this.storage.getOutboxEntriesForMessage(messageId);
+    if (queuedEntries.length === 0) {
+      return this.storage.getMessage(messageId);
+    }
+
+    await Promise.all(
+      queuedEntries.map((entry) => this.storage.updateOutboxEntry(entry.seq!, { status: 'pending' }))
+    );
+    await this.setMessageSyncStatus(messageId, 'pending');
+
+    const message = await this.storage.getMessage(messageId);
+    if (message) {
+      this.emitMessageChange(message.chat_id, { type: "upsert", message });
+    }
+
+    const { sent } = await this.flushOutbox();
+    return sent.get(messageId) || (await this.storage.getMessage(messageId));
+  }
+
+  // Give up on a failed message. An unsent message disappears; a failed edit
+  // of a sent message falls back to the server copy.
+  async discardMessage(messageId: string): Promise<void> {
+    const message = await this.storage.getMessage(messageId);
+    const queuedEntries = await this.storage.getOutboxEntriesForMessage(messageId);
+    const neverSent = queuedEntries.some((entry) => entry.kind === 'send');
+
+    // Look up the server copy before dropping anything, so a failed lookup
+    // (e.g. offline) leaves the message and its queued writes as they were
+    let serverMessage: Message | null = null;
+    if (message && !neverSent) {
+      const { data, error } = await supabase
+        .from("messages")
+        .select(MESSAGE_SELECT)
+        .eq("id", messageId)
+        .single();
+
+      // PGRST116: no row matched, the message is gone on the server
+      if (error && error.code !== 'PGRST116') {
+        throw new Error(`Failed to fetch message: ${error.message}`);
+      }
+      serverMessage = data && !data.deleted_at ? (data as unknown as Message) : null;
+    }
+
+    await Promise.all(queuedEntries.map((entry) => this.storage.deleteOutboxEntry(entry.seq!)));
+
+    if (!message) return;
+
+    if (!serverMessage) {
+      await this.storage.deleteMessage(messageId);
+      this.emitMessageChange(message.chat_id, { type: "delete", messageId });
+    } else {
+      await this.storage.saveMessage(serverMessage);
+      this.emitMessageChange(message.chat_id, {
+        type: "upsert",
+        message: { ...serverMessage, sync_status: undefined },
+      });
     }
 
-    this.syncInProgress.add(syncKey);
+    // The discarded entry may have been holding up later writes
+    await this.flushOutbox();
+  }
+
+  // Replay queued writes in order. Calls are chained so an entry queued while
+  // a flush is running is picked up by the next run instead of being missed.
+  flushOutbox(): Promise<OutboxFlushResult> {
+    return this.withOutbox(() => this.replayOutbox());
+  }
+
+  // Run `task` once earlier flushes are done, and hold later ones until it is
+  private withOutbox<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.outboxQueue.then(task);
+    this.outboxQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  // A message as cached now. An optimistic row whose send has landed since
+  // was replaced by the server row for the same client_id.
+  private async currentCopy(messageId: string): Promise<Message | null> {
+    const message = await this.storage.getMessage(messageId);
+    if (message || !messageId.startsWith("temp-")) return message;
 
+    const copies = await this.storage.getMessagesByClientId(messageId.slice("temp-".length));
+    return copies.find((copy) => !copy.id.startsWith("temp-")) || null;
+  }
+
+  // Number of writes still waiting for the server
+  async getPendingOutboxCount(): Promise<number> {
     try {
-      // Get last sync status
-      const lastSync = await indexedDBService.getSyncStatus('profiles');
-      
-      // Fetch profiles from Supabase
-      let query = supabase
-        .from("profiles")
-        .select("*");
+      return (await this.storage.getOutboxEntries()).length;
+    } catch (error) {
+      console.warn("Failed to read outbox:", error);
+      return 0;
+    }
+  }
+
+  // Subscribe to local message changes (optimistic sends and their server
+  // copies) made outside the subscriber; returns an unsubscribe function
+  onMessageChange(listener: (chatId: string, change: MessageChange) => void): () => void {
+    this.attachCoordinator();
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  private emitMessageChange(chatId: string, change: MessageChange, fromOtherTab = false): void {
+    this.messageListeners.forEach((listener) => listener(chatId, change));
+    if (!fromOtherTab) {
+      tabCoordinator.publish(TAB_TOPICS.MESSAGE_CHANGE, { chatId, change });
+    }
+  }
+
+  // Subscribe to chat summary changes (new messages, reads, local sends);
+  // returns an unsubscribe function
+  onChatSummaryChange(listener: (chatId: string, summary: ChatSummary) => void): () => void {
+    this.attachCoordinator();
+    this.chatSummaryListeners.add(listener);
+    return () => {
+      this.chatSummaryListeners.delete(listener);
+    };
+  }
+
+  private emitChatSummaries(summaries: Map<string, ChatSummary>, fromOtherTab = false): void {
+    summaries.forEach((summary, chatId) => {
+      this.chatSummaryListeners.forEach((listener) => listener(chatId, summary));
+    });
+    if (!fromOtherTab) {
+      tabCoordinator.publish(TAB_TOPICS.CHAT_SUMMARIES, Array.from(summaries));
+    }
+  }
 
-      // Only fetch updated profiles if not forcing full sync
-      if (!force && lastSync?.lastSyncAt) {
-        query = query.gte("created_at", lastSync.lastSyncAt);
+  // Subscribe to cache writes made by syncs in this or another tab;
+  // returns an unsubscribe function
+  onCacheChange(listener: (change: CacheChange) => void): () => void {
+    this.attachCoordinator();
+    this.cacheChangeListeners.add(listener);
+    return () => {
+      this.cacheChangeListeners.delete(listener);
+    };
+  }
+
+  private emitCacheChange(change: CacheChange, fromOtherTab = false): void {
+    this.cacheChangeListeners.forEach((listener) => listener(change));
+    if (!fromOtherTab) {
+      tabCoordinator.publish(TAB_TOPICS.CACHE_CHANGE, change);
+    }
+  }
+
+  // Relay change events between tabs, and let the leader run the syncs
+  // other tabs schedule
+  private attachCoordinator(): void {
+    if (this.coordinatorAttached || typeof window === "undefined") return;
+    this.coordinatorAttached = true;
+
+    tabCoordinator.subscribe<{ chatId: string; change: MessageChange }>(
+      TAB_TOPICS.MESSAGE_CHANGE,
+      ({ chatId, change }) => this.emitMessageChange(chatId, change, true)
+    );
+    tabCoordinator.subscribe<Array<[string, ChatSummary]>>(
+      TAB_TOPICS.CHAT_SUMMARIES,
+      (entries) => this.emitChatSummaries(new Map(entries), true)
+    );
+    tabCoordinator.subscribe<CacheChange>(
+      TAB_TOPICS.CACHE_CHANGE,
+      (change) => this.emitCacheChange(change, true)
+    );
+    tabCoordinator.subscribe<SyncRequest>(TAB_TOPICS.SYNC_REQUEST, (request) => {
+      if (!tabCoordinator.isLeader()) return;
+      if (request.type === "messages") {
+        this.syncMessages(request.chatId);
+      } else {
+        this.syncChats(request.userId);
+      }
+    });
+  }
+
+  // Subscribe to outbox flushes; returns an unsubscribe function
+  onOutboxFlushed(listener: (result: OutboxFlushResult) => void): () => void {
+    this.attachCoordinator();
+    this.outboxListeners.add(listener);
+    return () => {
+      this.outboxListeners.delete(listener);
+    };
+  }
+
+  // Replay queued writes now and on every reconnect, and run a full sync
+  // after an offline spell. A tab does this once however many views ask,
+  // and only the leader tab does the work; the others see it in the cache.
+  // Returns a release function.
+  watchConnectivity(userId: string): () => void {
+    if (typeof window === "undefined") return () => {};
+
+    if (this.connectivityUserId !== userId) {
+      this.detachConnectivity?.();
+      this.connectivityUserId = userId;
+      this.connectivityUsers = 0;
+      this.detachConnectivity = this.attachConnectivity(userId);
+    }
+    this.connectivityUsers++;
+
+    let released = false;
+    return () => {
+      if (released || this.connectivityUserId !== userId) return;
+      released = true;
+
+      this.connectivityUsers--;
+      if (this.connectivityUsers === 0) {
+        this.detachConnectivity?.();
+        this.detachConnectivity = null;
+        this.connectivityUserId = null;
       }
+    };
+  }
+
+  get isOfflineSyncPending(): boolean {
+    return this.offlineSyncPending;
+  }
+
+  // Ask for a full sync on the next reconnect
+  requestOfflineSync(): void {
+    this.setOfflineSyncPending(true);
+  }
+
+  onOfflineSyncChange(listener: (pending: boolean) => void): () => void {
+    this.offlineSyncListeners.add(listener);
+    return () => {
+      this.offlineSyncListeners.delete(listener);
+    };
+  }
+
+  private setOfflineSyncPending(pending: boolean): void {
+    if (this.offlineSyncPending === pending) return;
+
+    this.offlineSyncPending = pending;
+    this.offlineSyncListeners.forEach((listener) => listener(pending));
+  }
+
+  private attachConnectivity(userId: string): () => void {
+    const catchUp = async () => {
+      if (!tabCoordinator.isLeader()) {
+        this.setOfflineSyncPending(false);
+        return;
+      }
+
+      // Queued writes go first so the full sync sees them on the server
+      try {
+        await this.flushOutbox();
+      } catch (error) {
+        console.error("Outbox replay failed:", error);
+      }
+
+      if (!this.offlineSyncPending) return;
+      this.setOfflineSyncPending(false);
+      try {
+        await this.fullSync(userId);
+        console.log("Offline sync completed");
+      } catch (error) {
+        console.error("Offline sync failed:", error);
+        this.setOfflineSyncPending(true);
+      }
+    };
+    const handleOffline = () => this.setOfflineSyncPending(true);
+
+    window.addEventListener("online", catchUp);
+    window.addEventListener("offline", handleOffline);
+    // A tab taking over picks up what the last leader left behind
+    const stopFollowingLeadership = tabCoordinator.onLeadershipChange((isLeader) => {
+      if (isLeader) catchUp();
+    });
+
+    // Replay anything left over from a previous session
+    catchUp();
+
+    return () => {
+      window.removeEventListener("online", catchUp);
+      window.removeEventListener("offline", handleOffline);
+      stopFollowingLeadership();
+    };
+  }
+
+  // Subscribe to every batch of writes to the local cache, from any module
+  // or tab; returns an unsubscribe function
+  onStorageChange(listener: (changes: DBChange[]) => void): () => void {
+    return this.storage.onChange(listener);
+  }
+
+  // The cached chat list, without syncing
+  getCachedChats(): Promise<Chat[]> {
+    return this.storage.getChats();
+  }
+
+  private async enqueueOutboxEntry(
+    kind: OutboxEntry['kind'],
+    message: Message,
+    payload: OutboxEntry['payload']
+  ): Promise<void> {
+    await this.storage.addOutboxEntry({
+      kind,
+      message_id: message.id,
+      chat_id: message.chat_id,
+      user_id: message.user_id,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  private async replayOutbox(): Promise<OutboxFlushResult> {
+    const result: OutboxFlushResult = { flushed: 0, failed: 0, remaining: 0, sent: new Map() };
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      result.remaining = await this.getPendingOutboxCount();
+      return result;
+    }
+
+    const entries = await this.storage.getOutboxEntries();
+    // Messages with a failed entry; their later entries depend on it
+    const blockedMessages = new Set<string>();
+    let gone = 0;
 
-      const { data: remoteProfiles, error } = await query;
+    for (const listed of entries) {
+      if (blockedMessages.has(listed.message_id)) continue;
 
-      if (error) {
-        throw new Error(`Failed to fetch profiles: ${error.message}`);
+      // Another tab may have replayed or dropped the entry, or changed it
+      const entry = (await this.storage.getOutboxEntriesForMessage(listed.message_id))
+        .find((current) => current.seq === listed.seq);
+      if (!entry) {
+        gone++;
+        continue;
       }
 
-      if (remoteProfiles && remoteProfiles.length > 0) {
-        // Store profiles in IndexedDB
-        await indexedDBService.saveProfiles(remoteProfiles as Profile[]);
-        
-        // Update sync status
-        await indexedDBService.updateSyncStatus('profiles');
+      try {
+        // Sends are idempotent through client_id, and edits and deletes
+        // converge, so transient failures can be retried in place
+        const savedMessage = await this.scheduler.run(
+          `outbox-${entry.seq}`,
+          () => this.replayOutboxEntry(entry),
+          OUTBOX_RETRY_POLICY
+        );
+        await this.storage.deleteOutboxEntry(entry.seq!);
+        if (savedMessage) {
+          result.sent.set(entry.message_id, savedMessage);
+          if (entry.kind === 'send') {
+            this.emitMessageChange(entry.chat_id, { type: "upsert", message: savedMessage });
+          }
+        }
+        result.flushed++;
+      } catch (error) {
+        // Signed out mid-retry: the entry stays pending for the next session
+        if (classifySyncError(error) === 'cancelled') break;
+
+        const lastError = error instanceof Error ? error.message : (error as { message?: string })?.message || "Unknown error";
+        console.error(`Outbox replay failed for ${entry.kind} of message ${entry.message_id}:`, error);
+
+        await this.storage.updateOutboxEntry(entry.seq!, {
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          last_error: lastError,
+        });
+        await this.setMessageSyncStatus(entry.message_id, 'failed');
+        result.failed++;
+
+        // An unreachable server fails every later entry too, so keep the
+        // order intact and stop. A write the server rejects (RLS, a bad
+        // reference or value) only holds up the rest of its own message.
+        if (classifySyncError(error) !== 'permanent') break;
+        blockedMessages.add(entry.message_id);
       }
+    }
 
-      return { 
-        success: true, 
-        synced: remoteProfiles?.length || 0 
-      };
+    result.remaining = entries.length - result.flushed - gone;
 
-    } catch (error) {
-      console.error("Profile sync error:", error);
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : "Unknown error",
-        synced: 0 
-      };
-    } finally {
-      this.syncInProgress.delete(syncKey);
+    if (result.flushed > 0 || result.failed > 0) {
+      this.outboxListeners.forEach((listener) => listener(result));
     }
+
+    return result;
   }
 
-  // Hybrid data loading: try IndexedDB first, then Supabase
-  async getMessages(chatId: string): Promise<Message[]> {
-    try {
-      // Try to get messages from IndexedDB first
-      const cachedMessages = await indexedDBService.getMessagesByChatId(chatId);
-      
-      if (cachedMessages.length > 0) {
-        // Start background sync for fresh data
-        this.scheduleSyncMessages(chatId);
-        return cachedMessages;
+  private async replayOutboxEntry(entry: OutboxEntry): Promise<Message | null> {
+    switch (entry.kind) {
+      case 'send': {
+        const { attachment, client_id } = entry.payload;
+        const content = attachment
+          ? attachmentContent(attachment, await this.uploadAttachment(entry.chat_id, client_id || entry.message_id, attachment))
+          : entry.payload.content || '';
+
+        const savedMessage = await this.insertMessage({
+          chat_id: entry.chat_id,
+          user_id: entry.user_id,
+          content,
+          type: entry.payload.type || 'text',
+          client_id: entry.payload.client_id || null,
+        });
+
+        // Replace optimistic message with real one
+        await this.storage.deleteMessage(entry.message_id);
+        await this.storage.saveMessage(savedMessage);
+        return savedMessage;
       }
 
-      // If no cached messages, fetch from Supabase directly
-      const { data: remoteMessages, error } = await supabase
-        .from("messages")
-        .select("*, profiles(*)")
-        .eq("chat_id", chatId)
-        .order("created_at", { ascending: true });
-
-      if (error) {
-        throw new Error(`Failed to fetch messages: ${error.message}`);
-      }
+      case 'edit': {
+        const { data: savedMessage, error } = await supabase
+          .from("messages")
+          .update({ content: entry.payload.content })
+          .eq("id", entry.message_id)
+          .select(MESSAGE_SELECT)
+          .single();
+
+        // PGRST116: no row matched, the message is gone on the server
+        if (error && error.code !== 'PGRST116') {
+          throw error;
+        }
 
-      const messages = (remoteMessages as Message[]) || [];
-      
-      // Cache the messages for future use (if IndexedDB is available)
-      if (messages.length > 0) {
-        try {
-          await indexedDBService.saveMessages(messages);
-          await indexedDBService.updateSyncStatus('messages');
-        } catch (cacheError) {
-          console.warn("Failed to cache messages:", cacheError);
-          // Continue without caching
+        if (savedMessage && !savedMessage.deleted_at) {
+          await this.storage.saveMessage(savedMessage as unknown as Message);
+          return savedMessage as unknown as Message;
         }
+        await this.storage.deleteMessage(entry.message_id);
+        return null;
       }
 
-      return messages;
-
-    } catch (error) {
-      console.error("Error getting messages:", error);
-      
-      // If IndexedDB fails entirely, fetch directly from Supabase
-      try {
-        const { data: remoteMessages, error: supabaseError } = await supabase
+      case 'delete': {
+        // Soft delete leaves a tombstone that other devices pick up on sync
+        const { error } = await supabase
           .from("messages")
-          .select("*, profiles(*)")
-          .eq("chat_id", chatId)
-          .order("created_at", { ascending: true });
+          .update({ deleted_at: new Date().toISOString() })
+          .eq("id", entry.message_id);
 
-        if (supabaseError) {
-          throw new Error(`Failed to fetch messages: ${supabaseError.message}`);
+        if (error) {
+          throw error;
         }
-
-        const fallbackMessages = (remoteMessages as Message[]) || [];
-        return fallbackMessages;
-      } catch (fallbackError) {
-        console.error("Fallback fetch also failed:", fallbackError);
-        return [];
+        return null;
       }
     }
   }
 
-  async getChats(userId: string): Promise<Chat[]> {
-    try {
-      // Try to get chats from IndexedDB first
-      const cachedChats = await indexedDBService.getChats();
-      
-      if (cachedChats.length > 0) {
-        // Start background sync for fresh data
-        this.scheduleSyncChats(userId);
-        return cachedChats;
-      }
-
-      // If no cached chats, fetch from Supabase directly
-      const chatIds = await this.getUserChatIds(userId);
-      
-      const { data: remoteChats, error } = await supabase
-        .from("chats")
-        .select(`
-          *,
-          chat_participants(user_id, profiles(*))
-        `)
-        .in("id", chatIds)
-        .order("last_message_at", { ascending: false });
+  // Insert a message once. A retry whose first attempt already landed hits the
+  // client_id constraint, and the row that landed is returned instead.
+  private async insertMessage(
+    insert: Database["public"]["Tables"]["messages"]["Insert"]
+  ): Promise<Message> {
+    const { data: savedMessage, error } = await supabase
+      .from("messages")
+      .insert([insert])
+      .select(MESSAGE_SELECT)
+      .single();
+
+    if (!error) {
+      return savedMessage as unknown as Message;
+    }
 
-      if (error) {
-        throw new Error(`Failed to fetch chats: ${error.message}`);
-      }
+    if (error.code !== UNIQUE_VIOLATION || !insert.client_id) {
+      throw error;
+    }
 
-      const chats = (remoteChats as Chat[]) || [];
-      
-      // Fetch messages for each chat
-      const chatsWithMessages = await Promise.all(
-        chats.map(async (chat) => {
-          try {
-            // Fetch recent messages for this chat (last 50 messages should be enough for unread counting)
-            const { data: messages, error: messagesError } = await supabase
-              .from("messages")
-              .select("*, profiles(*)")
-              .eq("chat_id", chat.id)
-              .order("created_at", { ascending: false })
-              .limit(50);
-
-            if (messagesError) {
-              console.warn(`Failed to fetch messages for chat ${chat.id}:`, messagesError);
-              return { ...chat, messages: [] };
-            }
+    console.log("Message already sent, reusing existing row for client_id:", insert.client_id);
+    const { data: existingMessage, error: fetchError } = await supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("client_id", insert.client_id)
+      .single();
 
-            console.log(`Loaded ${messages?.length || 0} messages for chat ${chat.id}`);
-            return {
-              ...chat,
-              messages: (messages as Message[]) || []
-            };
-          } catch (chatError) {
-            console.warn(`Error fetching messages for chat ${chat.id}:`, chatError);
-            return { ...chat, messages: [] };
-          }
-        })
-      );
-      
-      // Cache the chats for future use (if IndexedDB is available)
-      if (chatsWithMessages.length > 0) {
-        try {
-          await indexedDBService.saveChats(chatsWithMessages);
+    if (fetchError) {
+      throw fetchError;
+    }
 
-          // Store messages for each chat
-          for (const chat of chatsWithMessages) {
-            if (chat.messages && chat.messages.length > 0) {
-              await indexedDBService.saveMessages(chat.messages);
-            }
-          }
+    // An edit folded into the queued send after the first attempt still applies
+    if (existingMessage.content !== insert.content && !existingMessage.deleted_at) {
+      const { data: editedMessage, error: editError } = await supabase
+        .from("messages")
+        .update({ content: insert.content })
+        .eq("id", existingMessage.id)
+        .select(MESSAGE_SELECT)
+        .single();
 
-          await indexedDBService.updateSyncStatus('chats');
-        } catch (cacheError) {
-          console.warn("Failed to cache chats:", cacheError);
-          // Continue without caching
-        }
+      if (editError) {
+        throw editError;
       }
+      return editedMessage as unknown as Message;
+    }
+    return existingMessage as unknown as Message;
+  }
 
-      return chatsWithMessages;
+  // Upload to a path derived from the send's client_id, so a retry after a
+  // lost response finds the object already there instead of uploading twice
+  private async uploadAttachment(chatId: string, clientId: string, attachment: OutboxAttachment): Promise<string> {
+    const fileExt = attachment.fileName.split(".").pop();
+    const filePath = `chat-attachments/${chatId}/${clientId}.${fileExt}`;
 
-    } catch (error) {
-      console.error("Error getting chats:", error);
-      
-      // If IndexedDB fails entirely, fetch directly from Supabase
-      try {
-        const chatIds = await this.getUserChatIds(userId);
-        
-        const { data: remoteChats, error: supabaseError } = await supabase
-          .from("chats")
-          .select(`
-            *,
-            chat_participants(user_id, profiles(*))
-          `)
-          .in("id", chatIds)
-          .order("last_message_at", { ascending: false });
-
-        if (supabaseError) {
-          throw new Error(`Failed to fetch chats: ${supabaseError.message}`);
-        }
+    const { error } = await supabase.storage
+      .from("attachments")
+      .upload(filePath, attachment.file, { contentType: attachment.file.type });
 
-        return (remoteChats as Chat[]) || [];
-      } catch (fallbackError) {
-        console.error("Fallback fetch also failed:", fallbackError);
-        return [];
-      }
+    if (error && !/already exists/i.test(error.message)) {
+      throw error;
     }
-  }
 
-  // Optimistic updates for new messages
-  async addMessageOptimistically(message: Omit<Message, 'id' | 'created_at'>): Promise<Message> {
-    // Create optimistic message with temporary ID
-    const optimisticMessage: Message = {
-      ...message,
-      id: `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      created_at: new Date().toISOString(),
-    };
+    const { data: publicUrlData } = supabase.storage
+      .from("attachments")
+      .getPublicUrl(filePath);
+
+    return publicUrlData.publicUrl;
+  }
 
+  // Let senders know their messages reached this device. Fire and forget:
+  // a missed acknowledgement is repeated the next time the message is fetched.
+  private async acknowledgeDelivery(messages: MessageRow[]): Promise<void> {
     try {
-      // Save optimistically to IndexedDB
-      await indexedDBService.saveMessage(optimisticMessage);
+      const { data: { session } } = await supabase.auth.getSession();
+      const userId = session?.user.id;
+      if (!userId) return;
 
-      // Try to send to Supabase
-      const { data: savedMessage, error } = await supabase
-        .from("messages")
-        .insert([{
-          chat_id: message.chat_id,
-          user_id: message.user_id,
-          content: message.content,
-          type: message.type || 'text',
-        }])
-        .select("*, profiles(*)")
-        .single();
+      const undeliveredIds = messages
+        .filter((message) => !message.delivered_at && !message.deleted_at && message.user_id !== userId)
+        .map((message) => message.id);
+      if (undeliveredIds.length === 0) return;
 
+      const { error } = await supabase.rpc("mark_messages_delivered", { message_ids: undeliveredIds });
       if (error) {
-        throw error;
-      }
-
-      // Replace optimistic message with real one
-      if (savedMessage) {
-        await indexedDBService.deleteMessage(optimisticMessage.id);
-        await indexedDBService.saveMessage(savedMessage as Message);
-        return savedMessage as Message;
+        console.warn("Failed to acknowledge message delivery:", error);
       }
-
-      return optimisticMessage;
-
     } catch (error) {
-      console.error("Error adding message:", error);
-      // Mark message as failed to sync (you could add a 'sync_status' field)
-      return optimisticMessage;
+      console.warn("Failed to acknowledge message delivery:", error);
     }
   }
 
-  // Optimistic updates for editing messages
-  async updateMessageOptimistically(messageId: string, newContent: string): Promise<Message | null> {
+  // Summaries stand in for fetching each chat's messages, so acknowledge
+  // whole chats whose newest message from someone else is undelivered
+  private async acknowledgeChatDelivery(summaries: Map<string, ChatSummary>): Promise<void> {
     try {
-      console.log("syncService.updateMessageOptimistically - Updating message:", messageId, "with content:", newContent);
-      
-      // First, get the current message from cache
-      const currentMessage = await indexedDBService.getMessage(messageId);
-      if (!currentMessage) {
-        throw new Error("Message not found in cache");
+      const { data: { session } } = await supabase.auth.getSession();
+      const userId = session?.user.id;
+      if (!userId) return;
+
+      const chatIds = Array.from(summaries)
+        .filter(([, { last_message: lastMessage }]) =>
+          lastMessage && !lastMessage.delivered_at && lastMessage.user_id !== userId
+        )
+        .map(([chatId]) => chatId);
+      if (chatIds.length === 0) return;
+
+      const { error } = await supabase.rpc("mark_chats_delivered", { chat_ids: chatIds });
+      if (error) {
+        console.warn("Failed to acknowledge chat delivery:", error);
       }
+    } catch (error) {
+      console.warn("Failed to acknowledge chat delivery:", error);
+    }
+  }
 
-      // Create updated message for optimistic update
-      const updatedMessage: Message = {
-        ...currentMessage,
-        content: newContent,
-      };
-
-      // Save optimistically to IndexedDB
-      await indexedDBService.saveMessage(updatedMessage);
-      console.log("syncService.updateMessageOptimistically - Updated message in cache");
+  // Drop local optimistic rows once the server row for the same send is known
+  private async removeOptimisticCopies(clientId: string, serverId: string): Promise<void> {
+    const copies = await this.storage.getMessagesByClientId(clientId);
+    const optimisticIds = copies
+      .filter((message) => message.id !== serverId)
+      .map((message) => message.id);
 
-      // Try to update in Supabase
-      const { data: savedMessage, error } = await supabase
-        .from("messages")
-        .update({ 
-          content: newContent
-        })
-        .eq("id", messageId)
-        .select("*, profiles(*)")
-        .single();
+    if (optimisticIds.length > 0) {
+      await this.storage.deleteMessages(optimisticIds);
+    }
+  }
 
-      if (error) {
-        throw error;
+  // Whether any fetched row is new or newer than its cached copy
+  private async differsFromCache(remoteMessages: Message[]): Promise<boolean> {
+    for (const message of remoteMessages) {
+      const cached = await this.storage.getMessage(message.id);
+      if (!cached) {
+        if (!message.deleted_at) return true;
+        continue;
       }
-
-      // Update cache with server response
-      if (savedMessage) {
-        await indexedDBService.saveMessage(savedMessage as Message);
-        console.log("syncService.updateMessageOptimistically - Updated message from server response");
-        return savedMessage as Message;
+      if (
+        message.deleted_at
+        || cached.updated_at !== message.updated_at
+        || (cached.message_reads?.length ?? 0) !== (message.message_reads?.length ?? 0)
+      ) {
+        return true;
       }
+    }
+    return false;
+  }
 
-      return updatedMessage;
+  // Apply server rows to the cache: tombstones remove the message locally,
+  // everything else is upserted without clobbering unsent local edits
+  private async applyRemoteMessages(chatId: string, remoteMessages: Message[]): Promise<void> {
+    const deletedIds = remoteMessages
+      .filter((message) => message.deleted_at)
+      .map((message) => message.id);
+    const liveMessages = remoteMessages.filter((message) => !message.deleted_at);
 
-    } catch (error) {
-      console.error("Error updating message:", error);
-      
-      // Try to revert the optimistic update
-      try {
-        const originalMessage = await indexedDBService.getMessage(messageId);
-        if (originalMessage) {
-          // Revert to original content
-          const revertedMessage = { ...originalMessage };
-          await indexedDBService.saveMessage(revertedMessage);
-        }
-      } catch (revertError) {
-        console.error("Failed to revert optimistic update:", revertError);
-      }
-      
-      throw error;
+    if (deletedIds.length > 0) {
+      await this.removeMessagesLocally(deletedIds);
+    }
+
+    if (liveMessages.length > 0) {
+      await this.storage.saveMessages(await this.mergePendingMessages(chatId, liveMessages));
+      this.acknowledgeDelivery(liveMessages);
     }
   }
 
-  // Optimistic updates for deleting messages
-  async deleteMessageOptimistically(messageId: string): Promise<void> {
-    try {
-      console.log("syncService.deleteMessageOptimistically - Deleting message:", messageId);
-      
-      // First, get the current message from cache for potential rollback
-      const messageToDelete = await indexedDBService.getMessage(messageId);
-      if (!messageToDelete) {
-        throw new Error("Message not found in cache");
-      }
+  private async removeMessagesLocally(messageIds: string[]): Promise<void> {
+    await this.storage.deleteMessages(messageIds);
 
-      // Delete optimistically from IndexedDB
-      await indexedDBService.deleteMessage(messageId);
-      console.log("syncService.deleteMessageOptimistically - Deleted message from cache");
+    // Queued edits of a message deleted elsewhere can never apply
+    for (const messageId of messageIds) {
+      const queuedEntries = await this.storage.getOutboxEntriesForMessage(messageId);
+      await Promise.all(queuedEntries.map((entry) => this.storage.deleteOutboxEntry(entry.seq!)));
+    }
+  }
 
-      // Try to delete from Supabase
-      const { error } = await supabase
-        .from("messages")
-        .delete()
-        .eq("id", messageId);
+  // Overlay messages that still have queued writes on top of server rows, so a
+  // refresh neither drops unsent messages nor reverts unsent edits
+  private async mergePendingMessages(chatId: string, remoteMessages: Message[]): Promise<Message[]> {
+    let pendingMessages: Message[] = [];
+    try {
+      pendingMessages = (await this.storage.getMessagesByChatId(chatId))
+        .filter((message) => message.sync_status);
+    } catch {
+      return remoteMessages;
+    }
 
-      if (error) {
-        throw error;
-      }
+    if (pendingMessages.length === 0) return remoteMessages;
+
+    // An optimistic send whose server row is already here is superseded by it
+    const remoteClientIds = new Set(
+      remoteMessages.map((message) => message.client_id).filter(Boolean)
+    );
+    const supersededIds = pendingMessages
+      .filter((message) => message.client_id && remoteClientIds.has(message.client_id)
+        && !remoteMessages.some((remote) => remote.id === message.id))
+      .map((message) => message.id);
+    if (supersededIds.length > 0) {
+      await this.storage.deleteMessages(supersededIds);
+    }
 
-      console.log("syncService.deleteMessageOptimistically - Successfully deleted message from server");
+    const merged = new Map(remoteMessages.map((message) => [message.id, message]));
+    pendingMessages
+      .filter((message) => !supersededIds.includes(message.id))
+      .forEach((message) => {
+        merged.set(message.id, { ...merged.get(message.id), ...message });
+      });
 
-    } catch (error) {
-      console.error("Error deleting message:", error);
-      
-      // Try to restore the message if deletion failed
-      try {
-        const messageToDelete = await indexedDBService.getMessage(messageId);
-        if (!messageToDelete) {
-          // We need to restore from a backup - in a real app, you might want to store this differently
-          console.warn("Cannot restore deleted message - no backup available");
-        }
-      } catch (restoreError) {
-        console.error("Failed to restore deleted message:", restoreError);
-      }
-      
-      throw error;
+    return Array.from(merged.values()).sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+  }
+
+  private async setMessageSyncStatus(messageId: string, syncStatus: MessageSyncStatus): Promise<void> {
+    try {
+      await this.storage.updateMessage(messageId, { sync_status: syncStatus });
+    } catch {
+      // Deleted messages have nothing to flag
     }
   }
 
@@ -531,10 +1699,14 @@ class SyncService {
       clearTimeout(this.syncTimeouts.get(key)!);
     }
 
-    // Schedule new sync
+    // Schedule new sync; only the leader tab talks to Supabase
     const timeout = setTimeout(() => {
-      this.syncMessages(chatId);
       this.syncTimeouts.delete(key);
+      if (tabCoordinator.isLeader()) {
+        this.syncMessages(chatId);
+      } else {
+        tabCoordinator.publish<SyncRequest>(TAB_TOPICS.SYNC_REQUEST, { type: "messages", chatId });
+      }
     }, delay);
 
     this.syncTimeouts.set(key, timeout);
@@ -548,10 +1720,34 @@ class SyncService {
       clearTimeout(this.syncTimeouts.get(key)!);
     }
 
-    // Schedule new sync
+    // Schedule new sync; only the leader tab talks to Supabase
+    const timeout = setTimeout(() => {
+      this.syncTimeouts.delete(key);
+      if (tabCoordinator.isLeader()) {
+        this.syncChats(userId);
+      } else {
+        tabCoordinator.publish<SyncRequest>(TAB_TOPICS.SYNC_REQUEST, { type: "chats", userId });
+      }
+    }, delay);
+
+    this.syncTimeouts.set(key, timeout);
+  }
+
+  // Debounced summary refresh, so a burst of read receipts costs one fetch
+  scheduleRefreshChatSummary(chatId: string, delay = 500): void {
+    const key = `summary-${chatId}`;
+
+    // Clear existing timeout
+    if (this.syncTimeouts.has(key)) {
+      clearTimeout(this.syncTimeouts.get(key)!);
+    }
+
+    // Schedule new refresh
     const timeout = setTimeout(() => {
-      this.syncChats(userId);
       this.syncTimeouts.delete(key);
+      this.refreshChatSummaries([chatId]).catch((error) => {
+        console.warn("Failed to refresh chat summary:", chatId, error);
+      });
     }, delay);
 
     this.syncTimeouts.set(key, timeout);
@@ -563,92 +1759,183 @@ class SyncService {
     chats: SyncResult;
     profiles: SyncResult;
   }> {
-    const [messagesResult, chatsResult, profilesResult] = await Promise.allSettled([
-      this.syncMessages('', true), // Empty chatId for all messages
+    const [chatsResult, profilesResult] = await Promise.allSettled([
       this.syncChats(userId, true),
       this.syncProfiles(true),
     ]);
 
+    // Messages are tracked per chat, so refresh every chat we now know about
+    const messagesResult = await this.syncAllMessages(true);
+
     return {
-      messages: messagesResult.status === 'fulfilled' ? messagesResult.value : { success: false, error: 'Failed', synced: 0 },
+      messages: messagesResult,
       chats: chatsResult.status === 'fulfilled' ? chatsResult.value : { success: false, error: 'Failed', synced: 0 },
       profiles: profilesResult.status === 'fulfilled' ? profilesResult.value : { success: false, error: 'Failed', synced: 0 },
     };
   }
 
+  // Sync messages for every cached chat, each against its own watermark
+  async syncAllMessages(force = false): Promise<SyncResult> {
+    try {
+      const chatIds = await this.storage.getChatIds();
+      const results: SyncResult[] = [];
+
+      // A few chats at a time rather than one request per chat at once,
+      // which would also trip the scheduler's circuit breaker
+      let next = 0;
+      const worker = async () => {
+        while (next < chatIds.length) {
+          results.push(await this.syncMessages(chatIds[next++], force));
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(MESSAGE_SYNC_CONCURRENCY, chatIds.length) }, worker));
+
+      const failed = results.filter((result) => !result.success);
+
+      return {
+        success: failed.length === 0,
+        error: failed.length > 0 ? `${failed.length} of ${results.length} chats failed to sync` : undefined,
+        errorKind: failed[0]?.errorKind,
+        synced: results.reduce((total, result) => total + result.synced, 0),
+      };
+    } catch (error) {
+      console.error("Message sync error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorKind: classifySyncError(error),
+        synced: 0,
+      };
+    }
+  }
+
   // Get sync status for all data types
-  async getSyncInfo(): Promise<{
-    messages?: { lastSyncAt: string };
-    chats?: { lastSyncAt: string };
-    profiles?: { lastSyncAt: string };
-    storage: {
-      messagesCount: number;
-      chatsCount: number;
-      profilesCount: number;
-      estimatedSize: string;
-    };
-  }> {
-    const [messagesSync, chatsSync, profilesSync, storageInfo] = await Promise.all([
-      indexedDBService.getSyncStatus('messages'),
-      indexedDBService.getSyncStatus('chats'),
-      indexedDBService.getSyncStatus('profiles'),
-      indexedDBService.getStorageInfo(),
+  async getSyncInfo(): Promise<SyncInfo> {
+    const [messagesSyncs, chatsSyncs, profilesSync, storageInfo] = await Promise.all([
+      this.storage.getSyncStatusesByType('messages'),
+      this.storage.getSyncStatusesByType('chats'),
+      this.storage.getSyncStatus('profiles'),
+      this.storage.getStorageInfo(),
     ]);
 
+    // Report when each entity type was last synced, not its data watermark
+    const mostRecent = (statuses: SyncStatus[]) => {
+      const syncedAt = latestTimestamp(statuses, "syncedAt");
+      return statuses.length > 0 ? { lastSyncAt: syncedAt } : undefined;
+    };
+
     return {
-      messages: messagesSync ? { lastSyncAt: messagesSync.lastSyncAt } : undefined,
-      chats: chatsSync ? { lastSyncAt: chatsSync.lastSyncAt } : undefined,
-      profiles: profilesSync ? { lastSyncAt: profilesSync.lastSyncAt } : undefined,
+      messages: mostRecent(messagesSyncs),
+      chats: mostRecent(chatsSyncs),
+      profiles: profilesSync ? { lastSyncAt: profilesSync.syncedAt } : undefined,
+      chatMessages: Object.fromEntries(
+        messagesSyncs.map((status) => [status.scope, { lastSyncAt: status.syncedAt }])
+      ),
       storage: storageInfo,
     };
   }
 
-  // Clear all cached data
-  async clearCache(): Promise<void> {
-    await indexedDBService.clearAllData();
+  // Clear all cached data, optionally keeping a user's unsent writes
+  async clearCache(preserveOutboxForUserId?: string): Promise<void> {
+    await this.storage.clearAllData(preserveOutboxForUserId);
   }
 
-  // Search messages across all chats or specific chat
-  async searchMessages(query: string, chatId?: string): Promise<Message[]> {
-    return await indexedDBService.searchMessages(query, chatId);
+  // Search messages matching the query words and `filters`, cached and
+  // server hits merged newest first. The server reaches history that was
+  // never cached; the cache adds what hasn't reached the server yet and wins
+  // for messages in both, since it has the local edits. Offline (or if the
+  // server search fails) only the cache is searched.
+  async searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {},
+    cursor: MessageSearchCursor | null = null
+  ): Promise<MessageSearchPage> {
+    const terms = queryTerms(query);
+    if (terms.length === 0 && !hasSearchFilters(filters)) return { results: [], nextCursor: null };
+
+    const isAfterCursor = (message: Message) =>
+      !cursor || compareByRecency(message, { created_at: cursor.createdAt, id: cursor.id }) > 0;
+
+    const localResults = (await this.storage.searchMessages(query, filters, LOCAL_SEARCH_LIMIT))
+      .filter((result) => isAfterCursor(result.message));
+
+    let serverResults: MessageSearchResult[] = [];
+    let serverHasMore = false;
+    if (typeof navigator === 'undefined' || navigator.onLine) {
+      try {
+        const { data, error } = await supabase.rpc("search_messages", {
+          search_terms: terms,
+          chat_filter: filters.chatIds?.length ? filters.chatIds : null,
+          sender_filter: filters.senderIds?.length ? filters.senderIds : null,
+          attachments_only: !!filters.hasAttachment,
+          created_before: filters.before ?? null,
+          created_after: filters.after ?? null,
+          result_limit: SEARCH_PAGE_SIZE,
+          before_created_at: cursor?.createdAt ?? null,
+          before_id: cursor?.id ?? null,
+        });
+
+        if (error) {
+          throw new Error(`Failed to search messages: ${error.message}`);
+        }
+
+        const rows: SearchRow[] = data || [];
+        serverHasMore = rows.length === SEARCH_PAGE_SIZE;
+        serverResults = rows.map((row) => {
+          const message = withDeliveryStatus(row.message as unknown as Message);
+          return { message, score: row.rank, snippet: buildSnippet(message.content, terms) };
+        });
+      } catch (error) {
+        console.warn("Server search failed, showing cached results only:", error);
+      }
+    }
+
+    const merged = new Map<string, MessageSearchResult>();
+    for (const result of serverResults) {
+      // Show the cached copy, which has unsent edits, while it still matches
+      const cached = await this.storage.getMessage(result.message.id);
+      if (!cached) {
+        merged.set(result.message.id, result);
+      } else if (matchesSearch(cached, terms, filters)) {
+        merged.set(cached.id, { ...result, message: cached, snippet: buildSnippet(cached.content, terms) });
+      }
+    }
+    localResults.forEach((result) => merged.set(result.message.id, result));
+
+    let results = Array.from(merged.values()).sort((a, b) => compareByRecency(a.message, b.message));
+
+    // Past the server's last hit there may be server hits not fetched yet
+    const lastServerHit = serverResults[serverResults.length - 1]?.message;
+    if (serverHasMore && lastServerHit) {
+      results = results.filter((result) => compareByRecency(result.message, lastServerHit) <= 0);
+    }
+
+    const page = results.slice(0, SEARCH_PAGE_SIZE);
+    const lastHit = page[page.length - 1]?.message;
+    const hasMore = results.length > SEARCH_PAGE_SIZE || serverHasMore;
+
+    return {
+      results: page,
+      nextCursor: hasMore && lastHit ? { createdAt: lastHit.created_at, id: lastHit.id } : null,
+    };
   }
 
   // Cleanup timeouts
   destroy(): void {
     this.syncTimeouts.forEach((timeout) => clearTimeout(timeout));
     this.syncTimeouts.clear();
-    this.syncInProgress.clear();
+    this.scheduler.reset();
   }
 
-  // Force fresh message loading from Supabase (for real-time events)
+  // Force fresh message loading from Supabase (for real-time events).
+  // Returns the newest page; older pages already in view stay valid.
   async getFreshMessages(chatId: string): Promise<Message[]> {
     try {
       console.log("syncService.getFreshMessages - Fetching fresh messages from Supabase for chatId:", chatId);
       
       // Always fetch from Supabase, ignore cache
-      const { data: remoteMessages, error } = await supabase
-        .from("messages")
-        .select("*, profiles(*)")
-        .eq("chat_id", chatId)
-        .order("created_at", { ascending: true });
-
-      if (error) {
-        throw new Error(`Failed to fetch fresh messages: ${error.message}`);
-      }
-
-      const messages = (remoteMessages as Message[]) || [];
+      const { messages } = await this.loadLatestPage(chatId);
       console.log("syncService.getFreshMessages - Got fresh messages:", messages.length);
-      
-      // Update IndexedDB cache with fresh data
-      if (messages.length > 0) {
-        try {
-          await indexedDBService.saveMessages(messages);
-          await indexedDBService.updateSyncStatus('messages');
-          console.log("syncService.getFreshMessages - Updated cache with fresh messages");
-        } catch (cacheError) {
-          console.warn("Failed to update cache with fresh messages:", cacheError);
-        }
-      }
 
       return messages;
 
@@ -663,92 +1950,18 @@ class SyncService {
   async getFreshChats(userId: string): Promise<Chat[]> {
     try {
       console.log("syncService.getFreshChats - Fetching fresh chats from Supabase for userId:", userId);
-      
-      // Always fetch from Supabase, ignore cache
-      const chatIds = await this.getUserChatIds(userId);
-      
-      const { data: remoteChats, error } = await supabase
-        .from("chats")
-        .select(`
-          *,
-          chat_participants(user_id, profiles(*))
-        `)
-        .in("id", chatIds)
-        .order("last_message_at", { ascending: false });
-
-      if (error) {
-        throw new Error(`Failed to fetch fresh chats: ${error.message}`);
-      }
 
-      const chats = (remoteChats as Chat[]) || [];
-      console.log("syncService.getFreshChats - Got fresh chats:", chats.length);
-      
-      // Fetch messages for each chat
-      const chatsWithMessages = await Promise.all(
-        chats.map(async (chat) => {
-          try {
-            // Fetch recent messages for this chat (last 50 messages should be enough for unread counting)
-            const { data: messages, error: messagesError } = await supabase
-              .from("messages")
-              .select("*, profiles(*)")
-              .eq("chat_id", chat.id)
-              .order("created_at", { ascending: false })
-              .limit(50);
-
-            if (messagesError) {
-              console.warn(`Failed to fetch messages for chat ${chat.id}:`, messagesError);
-              return { ...chat, messages: [] };
-            }
-
-            console.log(`Loaded ${messages?.length || 0} messages for chat ${chat.id}`);
-            return {
-              ...chat,
-              messages: (messages as Message[]) || []
-            };
-          } catch (chatError) {
-            console.warn(`Error fetching messages for chat ${chat.id}:`, chatError);
-            return { ...chat, messages: [] };
-          }
-        })
-      );
-
-      console.log("syncService.getFreshChats - Loaded messages for all chats");
-      
-      // Update IndexedDB cache with fresh data
-      if (chatsWithMessages.length > 0) {
-        try {
-          await indexedDBService.saveChats(chatsWithMessages);
-
-          // Store chat participants and profiles
-          for (const chat of chatsWithMessages) {
-            if (chat.chat_participants) {
-              for (const participant of chat.chat_participants) {
-                // Add chat_id to participant object for IndexedDB key path
-                const participantWithChatId = {
-                  ...participant,
-                  chat_id: chat.id
-                };
-                await indexedDBService.saveChatParticipant(participantWithChatId);
-                if (participant.profiles) {
-                  await indexedDBService.saveProfile(participant.profiles);
-                }
-              }
-            }
-
-            // Store messages for this chat
-            if (chat.messages && chat.messages.length > 0) {
-              await indexedDBService.saveMessages(chat.messages);
-            }
-          }
-
-          await indexedDBService.updateSyncStatus('chats');
-          console.log("syncService.getFreshChats - Updated cache with fresh chats and messages");
-        } catch (cacheError) {
-          console.warn("Failed to update cache with fresh chats:", cacheError);
-        }
+      // Pull whatever changed since the last sync, then serve every cached
+      // page so chats loaded further down the list stay in view. Only the
+      // leader tab pulls; its cache change brings other tabs up to date.
+      if (tabCoordinator.isLeader()) {
+        const lastSync = await this.storage.getSyncStatus('chats', userId);
+        const since = lastSync?.lastSyncAt ? withSyncOverlap(lastSync.lastSyncAt) : null;
+        const pulled = await this.pullInbox(userId, since);
+        console.log("syncService.getFreshChats - Pulled changed chats:", pulled);
       }
 
-      return chatsWithMessages;
+      return await this.storage.getChats();
 
     } catch (error) {
       console.error("Error getting fresh chats:", error);
@@ -757,28 +1970,30 @@ class SyncService {
     }
   }
 
-  // Optimistically mark messages as read in both cache and server
-  async markMessagesAsRead(messageIds: string[]): Promise<void> {
-    if (messageIds.length === 0) return;
+  // Record the user's read receipts, optimistically in the cache first.
+  // Returns the receipt so callers can apply it to their own state.
+  async markMessagesAsRead(messageIds: string[], userId: string): Promise<MessageRead | null> {
+    if (messageIds.length === 0) return null;
 
     try {
-      console.log("syncService.markMessagesAsRead - Marking messages as read:", messageIds);
-      
+      console.log("syncService.markMessagesAsRead - Recording read receipts:", messageIds);
+
+      const profile = await this.getProfileForUser(userId);
+      const read: MessageRead = {
+        user_id: userId,
+        read_at: new Date().toISOString(),
+        profiles: profile ? { full_name: profile.full_name, avatar_url: profile.avatar_url } : null,
+      };
+
       // First, optimistically update IndexedDB for immediate UI feedback
-      const readAt = new Date().toISOString();
+      const chatIds = new Set<string>();
       await Promise.all(
         messageIds.map(async (messageId) => {
           try {
-            // Get the message from cache
-            const cachedMessage = await indexedDBService.getMessage(messageId);
+            const cachedMessage = await this.storage.getMessage(messageId);
             if (cachedMessage) {
-              // Update the message in cache
-              const updatedMessage = {
-                ...cachedMessage,
-                is_read: true,
-                read_at: readAt
-              };
-              await indexedDBService.saveMessage(updatedMessage);
+              chatIds.add(cachedMessage.chat_id);
+              await this.storage.saveMessage(withReadReceipt(cachedMessage, read));
             }
           } catch (error) {
             console.warn("Failed to update message in cache:", messageId, error);
@@ -786,19 +2001,32 @@ class SyncService {
         })
       );
 
-      // Then, update in Supabase
+      // Then record the receipts in Supabase; chat_id is filled in by a trigger.
+      // Receipts are immutable, so re-marking a message is a no-op.
       const { error } = await supabase
-        .from("messages")
-        .update({ is_read: true, read_at: readAt })
-        .in("id", messageIds);
+        .from("message_reads")
+        .upsert(
+          messageIds.map((messageId) => ({ message_id: messageId, user_id: userId, read_at: read.read_at })),
+          { onConflict: "message_id,user_id", ignoreDuplicates: true }
+        );
 
       if (error) {
-        console.error("Error marking messages as read in Supabase:", error);
-        // Could implement retry logic or rollback cache changes here
+        console.error("Error recording read receipts in Supabase:", error);
         throw error;
       }
 
-      console.log("Successfully marked messages as read in both cache and server");
+      console.log("Successfully recorded read receipts in both cache and server");
+
+      // Unread counts changed; the chat list picks them up from the summaries
+      if (chatIds.size > 0) {
+        try {
+          await this.refreshChatSummaries(Array.from(chatIds));
+        } catch (summaryError) {
+          console.warn("Failed to refresh chat summaries after marking messages as read:", summaryError);
+        }
+      }
+
+      return read;
 
     } catch (error) {
       console.error("Error in markMessagesAsRead:", error);
@@ -808,22 +2036,40 @@ class SyncService {
 
   // Helper method to get chat IDs where user is a participant
   private async getUserChatIds(userId: string): Promise<string[]> {
-    const { data: chatParticipants, error } = await supabase
+    const { data: chatParticipants, error, status } = await supabase
       .from("chat_participants")
       .select("chat_id")
       .eq("user_id", userId);
 
+    // Throw rather than return [] - an empty list would evict every cached chat
     if (error) {
-      console.error("Error fetching user chat IDs:", error);
-      return [];
+      throw supabaseSyncError("Failed to fetch user chat IDs", error, status);
     }
 
     return chatParticipants.map(cp => cp.chat_id);
   }
+
+  // Remove cached chats the user is no longer a participant of
+  private async removeLeftChats(chatIds: string[]): Promise<number> {
+    const memberOf = new Set(chatIds);
+    const cachedIds = await this.storage.getChatIds();
+    const leftIds = cachedIds.filter(id => !memberOf.has(id));
+
+    for (const chatId of leftIds) {
+      console.log("Removing chat the user has left:", chatId);
+      await this.storage.deleteChat(chatId);
+    }
+
+    return leftIds.length;
+  }
 }
 
-// Export singleton instance
-export const syncService = new SyncService();
+// Export singleton instance. IndexedDB only exists in the browser; elsewhere
+// (server rendering, Node) the cache lives in memory for the process.
+export const syncService = new SyncService(
+  typeof window !== "undefined" && window.indexedDB ? indexedDBService : new MemoryStorage()
+);
 
 // Export types
-export type { SyncResult }; 
\ No newline at end of file
+export { SyncService, MESSAGE_PAGE_SIZE, INBOX_PAGE_SIZE, reduceMessages, reduceChatSummary, isReadBy, withReadReceipt };
+export type { SyncResult, SyncInfo, MessagePage, InboxCursor, InboxPage, MessageSearchCursor, MessageSearchPage, OutboxFlushResult, MessageChange, CacheChange }; 
\ No newline at end of file
@@ -0,0 +1,246 @@
+// Coordinates the app's open tabs over a BroadcastChannel: one tab is elected
+// leader and does the network work (sync, realtime sockets, presence), and
+// every tab can publish events to the others.
+
+type TabMessage =
+  | { type: "hello"; tabId: string }
+  | { type: "heartbeat"; tabId: string; leaderSince: number }
+  | { type: "claim"; tabId: string }
+  | { type: "resign"; tabId: string }
+  | { type: "event"; tabId: string; topic: string; data: unknown };
+
+const CHANNEL_NAME = "chat-app-tabs";
+
+// The leader announces itself this often...
+const HEARTBEAT_MS = 1000;
+// ...and is presumed gone after this long without a heartbeat
+const LEADER_TIMEOUT_MS = 3000;
+// How long a tab listens for objections before taking over
+const CLAIM_WINDOW_MS = 250;
+
+class TabCoordinator {
+  private tabId = typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  private channel: BroadcastChannel | null = null;
+  private started = false;
+  private leader = false;
+  private leaderSince = 0;
+  private leaderId: string | null = null;
+  private lastHeartbeatAt = 0;
+  private claiming = false;
+  private claimAbandoned = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private leadershipListeners: Set<(isLeader: boolean, leaderId: string | null) => void> = new Set();
+  private topicListeners: Map<string, Set<(data: unknown) => void>> = new Map();
+
+  getTabId(): string {
+    return this.tabId;
+  }
+
+  isLeader(): boolean {
+    this.start();
+    return this.leader;
+  }
+
+  // Called when this tab gains or loses leadership, or another tab takes over
+  onLeadershipChange(listener: (isLeader: boolean, leaderId: string | null) => void): () => void {
+    this.start();
+    this.leadershipListeners.add(listener);
+    return () => {
+      this.leadershipListeners.delete(listener);
+    };
+  }
+
+  // Send an event to every other tab; the sending tab does not receive it
+  publish<T>(topic: string, data: T): void {
+    this.start();
+    this.post({ type: "event", tabId: this.tabId, topic, data });
+  }
+
+  subscribe<T>(topic: string, listener: (data: T) => void): () => void {
+    this.start();
+    let listeners = this.topicListeners.get(topic);
+    if (!listeners) {
+      listeners = new Set();
+      this.topicListeners.set(topic, listeners);
+    }
+    // Every publisher of a topic sends the type its subscribers expect
+    const received = (data: unknown) => listener(data as T);
+    listeners.add(received);
+
+    return () => {
+      listeners!.delete(received);
+    };
+  }
+
+  private start(): void {
+    if (this.started || typeof window === "undefined") return;
+    this.started = true;
+
+    // Without BroadcastChannel every tab is on its own, so each one leads
+    if (typeof BroadcastChannel === "undefined") {
+      this.becomeLeader();
+      return;
+    }
+
+    window.addEventListener("pagehide", () => this.stop());
+    // Pages restored from the back/forward cache rejoin the election
+    window.addEventListener("pageshow", (event) => {
+      if (event.persisted) this.open();
+    });
+
+    this.open();
+  }
+
+  private open(): void {
+    if (this.channel) return;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleMessage(event.data);
+    this.heartbeatTimer = setInterval(() => this.tick(), HEARTBEAT_MS);
+
+    // An existing leader answers with a heartbeat; otherwise we claim
+    this.post({ type: "hello", tabId: this.tabId });
+    setTimeout(() => {
+      if (!this.leaderId) this.claim();
+    }, CLAIM_WINDOW_MS);
+  }
+
+  // Hand leadership over right away instead of letting it time out
+  private stop(): void {
+    if (this.leader) {
+      this.post({ type: "resign", tabId: this.tabId });
+      this.leader = false;
+      this.leaderSince = 0;
+      this.emitLeadership();
+    }
+    this.leaderId = null;
+    this.lastHeartbeatAt = 0;
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  private tick(): void {
+    if (this.leader) {
+      this.sendHeartbeat();
+    } else if (Date.now() - this.lastHeartbeatAt > LEADER_TIMEOUT_MS) {
+      this.claim();
+    }
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (!message || message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case "hello":
+        if (this.leader) this.sendHeartbeat();
+        break;
+
+      case "heartbeat":
+        // Two leaders (e.g. a throttled tab woke up): the newer one keeps it
+        if (this.leader) {
+          if (message.leaderSince > this.leaderSince
+            || (message.leaderSince === this.leaderSince && message.tabId < this.tabId)) {
+            this.stepDown(message.tabId);
+          } else {
+            this.sendHeartbeat();
+          }
+          return;
+        }
+
+        this.lastHeartbeatAt = Date.now();
+        this.claimAbandoned = true;
+        if (this.leaderId !== message.tabId) {
+          this.leaderId = message.tabId;
+          this.emitLeadership();
+        }
+        break;
+
+      case "claim":
+        if (this.leader) {
+          this.sendHeartbeat();
+        } else if (this.claiming && message.tabId < this.tabId) {
+          // Simultaneous claims: the lower tab ID wins
+          this.claimAbandoned = true;
+        }
+        break;
+
+      case "resign":
+        if (this.leaderId === message.tabId) {
+          this.leaderId = null;
+          this.lastHeartbeatAt = 0;
+          this.claim();
+        }
+        break;
+
+      case "event":
+        this.topicListeners.get(message.topic)?.forEach((listener) => {
+          try {
+            listener(message.data);
+          } catch (error) {
+            console.error("Tab event listener failed:", message.topic, error);
+          }
+        });
+        break;
+    }
+  }
+
+  private claim(): void {
+    if (this.claiming || this.leader || !this.channel) return;
+
+    this.claiming = true;
+    this.claimAbandoned = false;
+    this.post({ type: "claim", tabId: this.tabId });
+
+    setTimeout(() => {
+      this.claiming = false;
+      if (!this.claimAbandoned) {
+        this.becomeLeader();
+      }
+    }, CLAIM_WINDOW_MS);
+  }
+
+  private becomeLeader(): void {
+    if (this.leader) return;
+
+    console.log("Tab elected leader:", this.tabId);
+    this.leader = true;
+    this.leaderSince = Date.now();
+    this.leaderId = this.tabId;
+    this.sendHeartbeat();
+    this.emitLeadership();
+  }
+
+  private stepDown(newLeaderId: string): void {
+    console.log("Tab stepping down, new leader:", newLeaderId);
+    this.leader = false;
+    this.leaderSince = 0;
+    this.leaderId = newLeaderId;
+    this.lastHeartbeatAt = Date.now();
+    this.emitLeadership();
+  }
+
+  private sendHeartbeat(): void {
+    this.post({ type: "heartbeat", tabId: this.tabId, leaderSince: this.leaderSince });
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn("Failed to post tab message:", error);
+    }
+  }
+
+  private emitLeadership(): void {
+    this.leadershipListeners.forEach((listener) => listener(this.leader, this.leaderId));
+  }
+}
+
+// Export singleton instance
+export const tabCoordinator = new TabCoordinator();
@@ -1,32 +1,46 @@
 import { syncService } from './sync-service';
-import { indexedDBService } from './indexeddb';
+import { indexedDBService, databaseNameFor } from './indexeddb';
+import { realtimeManager } from './realtime-manager';
+import { accountRegistry, type CachedAccount } from './account-registry';
+
+// Account caches kept on this device, the signed-in one included
+const MAX_CACHED_ACCOUNTS = 3;
+// Caches unused for this many days are deleted at the next sign-in
+const CACHED_ACCOUNT_MAX_AGE_DAYS = 30;
 
 /**
  * User Data Access Object (DAO)
- * Handles user data management including session management and data clearing
+ * Handles user data management including session management and data clearing.
+ * Every account has its own IndexedDB database, kept across sign-ins so
+ * signing back in starts from a warm cache.
  */
 class UserDataDAO {
   private currentUserId: string | null = null;
 
   /**
-   * Initialize user session and clear previous user data
-   * Called when user logs in
+   * Initialize user session on the user's own database
+   * Called when user logs in; signing in again as the same user is a no-op
    */
-  async initializeUserSession(userId: string): Promise<void> {
+  async initializeUserSession(userId: string, email?: string | null): Promise<void> {
     try {
+      if (this.currentUserId === userId) {
+        console.log('UserDataDAO: Session already initialized for:', userId);
+        return;
+      }
+
       console.log('UserDataDAO: Initializing user session for:', userId);
-      
-      // If switching users, clear all data first
-      if (this.currentUserId && this.currentUserId !== userId) {
-        console.log('UserDataDAO: Different user detected, clearing previous data');
-        await this.clearAllUserData();
+
+      // Switching accounts: the previous user's channels must not leak into this session
+      if (this.currentUserId) {
+        realtimeManager.destroy();
       }
-      
-      // Clear all data for fresh start on login
-      await this.clearAllUserData();
-      
-      // Set current user
+
+      // Selected before anything else so no read lands in another account's cache
+      indexedDBService.selectUser(userId);
       this.currentUserId = userId;
+
+      await this.registerAccount(userId, email ?? null);
+      await this.pruneCachedAccounts(userId);
       
       console.log('UserDataDAO: User session initialized successfully');
     } catch (error) {
@@ -36,15 +50,29 @@ class UserDataDAO {
   }
 
   /**
-   * Clean up user session and clear all data
-   * Called when user logs out
+   * Clean up user session
+   * Called when user logs out. The account's cache stays on the device unless
+   * it is encrypted, which wipes it with its key, or `forgetDevice` is set,
+   * which deletes every account's cache
    */
-  async terminateUserSession(): Promise<void> {
+  async terminateUserSession(forgetDevice = false): Promise<void> {
     try {
-      console.log('UserDataDAO: Terminating user session for:', this.currentUserId);
+      const userId = this.currentUserId;
+      console.log('UserDataDAO: Terminating user session for:', userId);
       
-      // Clear all user data from IndexedDB
-      await this.clearAllUserData();
+      // Close realtime channels so the next user starts clean
+      realtimeManager.destroy();
+
+      // Nothing may read or write a cache while signed out
+      indexedDBService.selectUser(null);
+
+      if (userId) {
+        await indexedDBService.wipeEncryptedCache(userId);
+      }
+
+      if (forgetDevice) {
+        await this.forgetDevice();
+      }
       
       // Reset current user
       this.currentUserId = null;
@@ -56,16 +84,93 @@ class UserDataDAO {
     }
   }
 
+  /**
+   * Record the account in the device's registry, and on the first sign-in
+   * after upgrading, move its unsent writes out of the old shared database
+   */
+  private async registerAccount(userId: string, email: string | null): Promise<void> {
+    try {
+      await accountRegistry.recordUse({ user_id: userId, database: databaseNameFor(userId), email });
+
+      if (!(await accountRegistry.isLegacyAdopted())) {
+        console.log('UserDataDAO: Moving unsent writes out of the shared legacy database');
+        await indexedDBService.adoptLegacyDatabase(userId);
+        await accountRegistry.markLegacyAdopted();
+      }
+    } catch (error) {
+      // The cache works without the registry; pruning just waits for next time
+      console.warn('UserDataDAO: Could not update the account registry:', error);
+    }
+  }
+
+  /**
+   * Delete the caches of accounts beyond MAX_CACHED_ACCOUNTS or unused for
+   * CACHED_ACCOUNT_MAX_AGE_DAYS. A cache still holding unsent writes is kept
+   * until that account signs in again and delivers them
+   */
+  private async pruneCachedAccounts(currentUserId: string): Promise<void> {
+    try {
+      const accounts = await accountRegistry.list();
+      const cutoff = Date.now() - CACHED_ACCOUNT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+      const expired = accounts.filter((account, index) =>
+        account.user_id !== currentUserId &&
+        (index >= MAX_CACHED_ACCOUNTS || new Date(account.last_used_at).getTime() < cutoff)
+      );
+
+      for (const account of expired) {
+        if (await indexedDBService.hasUnsentWrites(account.user_id)) {
+          console.warn('UserDataDAO: Keeping cache with unsent writes for:', account.user_id);
+          continue;
+        }
+        await this.forgetAccount(account.user_id);
+      }
+    } catch (error) {
+      console.warn('UserDataDAO: Could not prune cached accounts:', error);
+    }
+  }
+
+  /**
+   * Accounts with a cache on this device, most recently used first
+   */
+  async getCachedAccounts(): Promise<CachedAccount[]> {
+    return accountRegistry.list();
+  }
+
+  /**
+   * Delete one account's cache, unsent writes included
+   */
+  async forgetAccount(userId: string): Promise<void> {
+    console.log('UserDataDAO: Forgetting cached data of:', userId);
+    await indexedDBService.deleteUserDatabase(userId);
+    await accountRegistry.deleteKeyring(userId);
+    await accountRegistry.remove(userId);
+  }
+
+  /**
+   * Delete every account's cache from this device
+   */
+  async forgetDevice(): Promise<void> {
+    const accounts = await accountRegistry.list();
+    for (const account of accounts) {
+      await this.forgetAccount(account.user_id);
+    }
+    if (this.currentUserId && !accounts.some((account) => account.user_id === this.currentUserId)) {
+      await indexedDBService.deleteUserDatabase(this.currentUserId);
+    }
+    console.log('UserDataDAO: All cached accounts removed from this device');
+  }
+
   /**
    * Clear all user data from IndexedDB
-   * This includes messages, chats, profiles, and sync status
+   * This includes messages, chats, profiles, sync status and the outbox,
+   * unless `preserveOutboxForUserId` names a user whose unsent writes to keep
    */
-  async clearAllUserData(): Promise<void> {
+  async clearAllUserData(preserveOutboxForUserId?: string): Promise<void> {
     try {
       console.log('UserDataDAO: Clearing all user data from IndexedDB');
       
       // Use the sync service to clear cache (which calls indexedDBService.clearAllData())
-      await syncService.clearCache();
+      await syncService.clearCache(preserveOutboxForUserId);
       
       // Also close and reset the IndexedDB connection to ensure clean state
       indexedDBService.close();
@@ -129,8 +234,9 @@ class UserDataDAO {
       // Reset state
       this.currentUserId = null;
       
-      // Destroy sync service timeouts
+      // Destroy sync service timeouts and realtime channels
       syncService.destroy();
+      realtimeManager.destroy();
       
       console.log('UserDataDAO: Emergency cleanup completed');
     } catch (error) {
@@ -141,4 +247,4 @@ class UserDataDAO {
 }
 
 // Export singleton instance
-export const userDataDAO = new UserDataDAO(); 
\ No newline at end of file
+export const userDataDAO = new UserDataDAO(); export { MAX_CACHED_ACCOUNTS, CACHED_ACCOUNT_MAX_AGE_DAYS };
@@ -0,0 +1,72 @@
+BEGIN;
+
+/*
+  # Per-chat summaries for the chat list
+
+  The chat list needs an unread count and a last-message preview for every
+  chat. Counting on the client meant fetching recent messages chat by chat
+  and was wrong past the size of that window.
+
+  1. Functions
+    - `get_chat_summaries(chat_ids)` - one row per chat the caller is in
+      (optionally limited to `chat_ids`) with the number of messages from
+      other users the caller has no read receipt for, and the newest
+      non-deleted message as JSON. Runs as the caller, so RLS still applies
+    - `mark_chats_delivered(chat_ids)` - marks every undelivered message from
+      other users in those chats as delivered, for clients that learn about
+      new messages from summaries instead of fetching them
+
+  2. Indexes
+    - `messages (chat_id, created_at)` for the last-message lookup
+*/
+
+CREATE INDEX IF NOT EXISTS messages_chat_id_created_at_idx ON messages (chat_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION get_chat_summaries(chat_ids UUID[] DEFAULT NULL)
+RETURNS TABLE (chat_id UUID, unread_count INTEGER, last_message JSONB) AS $$
+  SELECT
+    cp.chat_id,
+    (
+      SELECT count(*)::INTEGER
+      FROM messages m
+      WHERE m.chat_id = cp.chat_id
+      AND m.user_id <> auth.uid()
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM message_reads r
+        WHERE r.message_id = m.id
+        AND r.user_id = auth.uid()
+      )
+    ) AS unread_count,
+    (
+      -- search_vector (message-search.sql) is for the server only
+      SELECT to_jsonb(m) - 'search_vector'
+      FROM messages m
+      WHERE m.chat_id = cp.chat_id
+      AND m.deleted_at IS NULL
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    ) AS last_message
+  FROM chat_participants cp
+  WHERE cp.user_id = auth.uid()
+  AND (chat_ids IS NULL OR cp.chat_id = ANY(chat_ids));
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_chat_summaries(UUID[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_chats_delivered(chat_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE messages
+  SET delivered_at = now()
+  WHERE chat_id = ANY(chat_ids)
+  AND delivered_at IS NULL
+  AND deleted_at IS NULL
+  AND user_id <> auth.uid()
+  AND user_participates_in_chat(chat_id, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION mark_chats_delivered(UUID[]) TO authenticated;
+
+COMMIT;
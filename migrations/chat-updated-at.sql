@@ -0,0 +1,81 @@
+BEGIN;
+
+/*
+  # Track chat metadata and membership changes for incremental sync
+
+  Requires `set_updated_at()` from message-updated-at.sql.
+
+  1. Columns
+    - `chats.updated_at` - bumped on renames, tag edits and any membership change
+    - `chat_participants.updated_at` - bumped when a participant row changes
+
+  2. Triggers
+    - `set_chats_updated_at`, `set_chat_participants_updated_at` - keep `updated_at` current
+    - `touch_chat_on_participant_change` - a join, role change or removal also
+      bumps the parent chat, so one watermark on `chats` covers membership too
+
+  3. Security
+    - Participants can leave a chat; chat creators can remove participants
+*/
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+UPDATE chats SET updated_at = COALESCE(last_message_at, created_at, now()) WHERE updated_at IS NULL;
+ALTER TABLE chats ALTER COLUMN updated_at SET DEFAULT now();
+ALTER TABLE chats ALTER COLUMN updated_at SET NOT NULL;
+
+ALTER TABLE chat_participants ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+UPDATE chat_participants SET updated_at = COALESCE(joined_at, now()) WHERE updated_at IS NULL;
+ALTER TABLE chat_participants ALTER COLUMN updated_at SET DEFAULT now();
+ALTER TABLE chat_participants ALTER COLUMN updated_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS chats_updated_at_idx ON chats (updated_at);
+
+DROP TRIGGER IF EXISTS set_chats_updated_at ON chats;
+CREATE TRIGGER set_chats_updated_at
+BEFORE UPDATE ON chats
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS set_chat_participants_updated_at ON chat_participants;
+CREATE TRIGGER set_chat_participants_updated_at
+BEFORE UPDATE ON chat_participants
+FOR EACH ROW
+EXECUTE FUNCTION set_updated_at();
+
+-- Security definer: a user who just left can no longer update the chat,
+-- but the remaining members still need to see the membership change
+CREATE OR REPLACE FUNCTION touch_chat_on_participant_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chats
+  SET updated_at = clock_timestamp()
+  WHERE id = COALESCE(NEW.chat_id, OLD.chat_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS touch_chat_on_participant_change ON chat_participants;
+CREATE TRIGGER touch_chat_on_participant_change
+AFTER INSERT OR UPDATE OR DELETE ON chat_participants
+FOR EACH ROW
+EXECUTE FUNCTION touch_chat_on_participant_change();
+
+CREATE POLICY "Users can leave chats"
+  ON chat_participants
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Chat creators can remove participants"
+  ON chat_participants
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM chats
+      WHERE chats.id = chat_participants.chat_id
+      AND chats.created_by = auth.uid()
+    )
+  );
+
+COMMIT;
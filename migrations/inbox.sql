@@ -0,0 +1,116 @@
+BEGIN;
+
+/*
+  # Inbox RPC
+
+  Loads the chat list in one round trip instead of fetching chat IDs, then
+  chats, then each chat's messages.
+
+  1. Functions
+    - `get_inbox(inbox_limit, cursor_at, cursor_id, updated_since)` - a page
+      of the caller's chats, newest activity first, each with its
+      participants (and their profiles), last message and unread count
+      - Paging is keyset based: pass the `last_message_at` and `id` of the
+        last chat of the previous page as `cursor_at` / `cursor_id`
+      - With `updated_since`, only chats that changed since then are returned:
+        the chat or its membership changed, a message was sent, edited or
+        deleted, or the caller read something in it
+      - `server_time` is the same on every row and is what clients should
+        store as their next `updated_since` watermark
+    - Runs as the caller, so RLS still applies
+*/
+
+-- Finding the caller's reads since a watermark
+CREATE INDEX IF NOT EXISTS message_reads_user_id_read_at_idx ON message_reads (user_id, read_at);
+
+CREATE OR REPLACE FUNCTION get_inbox(
+  inbox_limit INTEGER DEFAULT 50,
+  cursor_at TIMESTAMPTZ DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  updated_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  type TEXT,
+  created_at TIMESTAMPTZ,
+  created_by UUID,
+  tags TEXT[],
+  last_message_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  chat_participants JSONB,
+  unread_count INTEGER,
+  last_message JSONB,
+  server_time TIMESTAMPTZ
+) AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.type,
+    c.created_at,
+    c.created_by,
+    c.tags,
+    c.last_message_at,
+    c.updated_at,
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'user_id', p.user_id,
+        'role', p.role,
+        'profiles', to_jsonb(pr)
+      )), '[]'::jsonb)
+      FROM chat_participants p
+      LEFT JOIN profiles pr ON pr.id = p.user_id
+      WHERE p.chat_id = c.id
+    ) AS chat_participants,
+    (
+      SELECT count(*)::INTEGER
+      FROM messages m
+      WHERE m.chat_id = c.id
+      AND m.user_id <> auth.uid()
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM message_reads r
+        WHERE r.message_id = m.id
+        AND r.user_id = auth.uid()
+      )
+    ) AS unread_count,
+    (
+      -- search_vector (message-search.sql) is for the server only
+      SELECT to_jsonb(m) - 'search_vector'
+      FROM messages m
+      WHERE m.chat_id = c.id
+      AND m.deleted_at IS NULL
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    ) AS last_message,
+    now() AS server_time
+  FROM chats c
+  JOIN chat_participants me ON me.chat_id = c.id AND me.user_id = auth.uid()
+  WHERE (
+    cursor_id IS NULL
+    OR (COALESCE(c.last_message_at, '-infinity'::TIMESTAMPTZ), c.id)
+      < (COALESCE(cursor_at, '-infinity'::TIMESTAMPTZ), cursor_id)
+  )
+  AND (
+    updated_since IS NULL
+    OR c.updated_at >= updated_since
+    OR c.last_message_at >= updated_since
+    OR EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.chat_id = c.id
+      AND m.updated_at >= updated_since
+    )
+    OR EXISTS (
+      SELECT 1 FROM message_reads r
+      WHERE r.chat_id = c.id
+      AND r.user_id = auth.uid()
+      AND r.read_at >= updated_since
+    )
+  )
+  ORDER BY COALESCE(c.last_message_at, '-infinity'::TIMESTAMPTZ) DESC, c.id DESC
+  LIMIT inbox_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_inbox(INTEGER, TIMESTAMPTZ, UUID, TIMESTAMPTZ) TO authenticated;
+
+COMMIT;
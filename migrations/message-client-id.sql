@@ -0,0 +1,19 @@
+BEGIN;
+
+/*
+  # Idempotent message sends
+
+  1. Columns
+    - `messages.client_id` - UUID generated by the sending client. Retrying a
+      send reuses it, so the unique constraint turns a duplicate insert into a
+      conflict (23505) the client resolves by reading the existing row
+
+  Rows sent before this migration keep a NULL client_id; NULLs never conflict.
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS client_id UUID;
+
+ALTER TABLE messages
+  ADD CONSTRAINT messages_client_id_key UNIQUE (client_id);
+
+COMMIT;
@@ -0,0 +1,50 @@
+BEGIN;
+
+/*
+  # Message delivery tracking
+
+  Together with read receipts this gives each message a delivery lifecycle:
+  sent (row exists) -> delivered (a recipient's device has it) -> read.
+
+  1. Columns
+    - `messages.delivered_at` - first time any recipient's device stored the message
+
+  2. Functions
+    - `mark_messages_delivered(message_ids)` - called by recipients after
+      caching messages. Ignores the caller's own messages and chats they are
+      not part of, and never moves `delivered_at` once set
+    - `touch_message_on_read` - a read also counts as a delivery
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+
+-- Anything already read has obviously been delivered
+UPDATE messages SET delivered_at = read_at WHERE delivered_at IS NULL AND read_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION mark_messages_delivered(message_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE messages
+  SET delivered_at = now()
+  WHERE id = ANY(message_ids)
+  AND delivered_at IS NULL
+  AND user_id <> auth.uid()
+  AND user_participates_in_chat(chat_id, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION mark_messages_delivered(UUID[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION touch_message_on_read()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE messages
+  SET is_read = true,
+      read_at = COALESCE(read_at, NEW.read_at),
+      delivered_at = COALESCE(delivered_at, NEW.read_at)
+  WHERE id = NEW.message_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
@@ -0,0 +1,94 @@
+BEGIN;
+
+/*
+  # Per-recipient read receipts
+
+  `messages.is_read` is a single flag, so in a group the first reader marked a
+  message read for everyone. Receipts are now stored per reader.
+
+  1. Tables
+    - `message_reads` - one row per (message, reader); `chat_id` is copied
+      from the message so receipts can be filtered and secured per chat
+
+  2. Triggers
+    - `set_message_read_chat_id` - fills `chat_id` from the message
+    - `touch_message_on_read` - bumps the message's `updated_at` so the
+      incremental message sync picks up new receipts, and keeps
+      `messages.is_read`/`read_at` meaning "read by at least one recipient"
+
+  3. Security
+    - Participants can see every receipt in their chats
+    - Users can only record their own receipts, for other people's messages
+    - Receipts are immutable: no update or delete policies
+    - The policy that let any participant flip `messages.is_read` is dropped
+*/
+
+CREATE TABLE IF NOT EXISTS message_reads (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS message_reads_chat_id_idx ON message_reads (chat_id);
+
+CREATE OR REPLACE FUNCTION set_message_read_chat_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT chat_id INTO NEW.chat_id FROM messages WHERE id = NEW.message_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_message_read_chat_id ON message_reads;
+CREATE TRIGGER set_message_read_chat_id
+BEFORE INSERT ON message_reads
+FOR EACH ROW
+EXECUTE FUNCTION set_message_read_chat_id();
+
+CREATE OR REPLACE FUNCTION touch_message_on_read()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE messages
+  SET is_read = true,
+      read_at = COALESCE(read_at, NEW.read_at)
+  WHERE id = NEW.message_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS touch_message_on_read ON message_reads;
+CREATE TRIGGER touch_message_on_read
+AFTER INSERT ON message_reads
+FOR EACH ROW
+EXECUTE FUNCTION touch_message_on_read();
+
+ALTER TABLE message_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read receipts in chats they participate in"
+  ON message_reads
+  FOR SELECT
+  TO authenticated
+  USING (user_participates_in_chat(chat_id, auth.uid()));
+
+CREATE POLICY "Users can record their own receipts"
+  ON message_reads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND user_participates_in_chat(chat_id, auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_reads.message_id
+      AND messages.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can mark messages as read in chats they participate in" ON messages;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reads;
+ALTER TABLE message_reads REPLICA IDENTITY FULL;
+
+COMMIT;
@@ -0,0 +1,73 @@
+BEGIN;
+
+/*
+  # Message search filters
+
+  The search panel narrows results by sender, chat, attachments and date
+  (`from:`, `in:`, `has:attachment`, `before:`, `after:`), and a query may
+  consist of filters alone.
+
+  1. Functions
+    - `search_messages` is replaced; it now takes
+      - `search_terms` - may be empty when any filter is given
+      - `chat_filter` - chats to search, now a list (NULL for all)
+      - `sender_filter` - senders to match (NULL for anyone)
+      - `attachments_only` - only messages of type `attachment`
+      - `created_before` / `created_after` - created before the first and
+        at or after the second
+      - `result_limit`, `before_created_at`, `before_id` - paging, as before
+    - Without search terms every hit has rank 0
+*/
+
+DROP FUNCTION IF EXISTS search_messages(TEXT[], UUID, INTEGER, TIMESTAMPTZ, UUID);
+
+CREATE OR REPLACE FUNCTION search_messages(
+  search_terms TEXT[],
+  chat_filter UUID[] DEFAULT NULL,
+  sender_filter UUID[] DEFAULT NULL,
+  attachments_only BOOLEAN DEFAULT false,
+  created_before TIMESTAMPTZ DEFAULT NULL,
+  created_after TIMESTAMPTZ DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  before_created_at TIMESTAMPTZ DEFAULT NULL,
+  before_id UUID DEFAULT NULL
+)
+RETURNS TABLE (message JSONB, rank REAL) AS $$
+  WITH terms AS (
+    SELECT ARRAY(
+      SELECT quote_literal(immutable_unaccent(lower(term))) || ':*'
+      FROM unnest(coalesce(search_terms, '{}')) AS term
+      WHERE term <> ''
+    ) AS t
+  ),
+  query AS (
+    SELECT CASE
+      WHEN cardinality(terms.t) = 0 THEN NULL
+      ELSE to_tsquery('simple', array_to_string(terms.t, ' & '))
+    END AS q
+    FROM terms
+  )
+  SELECT
+    (to_jsonb(m) - 'search_vector') || jsonb_build_object('profiles', to_jsonb(pr)) AS message,
+    coalesce(ts_rank(m.search_vector, query.q), 0) AS rank
+  FROM messages m
+  CROSS JOIN query
+  LEFT JOIN profiles pr ON pr.id = m.user_id
+  WHERE (query.q IS NULL OR m.search_vector @@ query.q)
+  AND m.deleted_at IS NULL
+  AND (chat_filter IS NULL OR m.chat_id = ANY(chat_filter))
+  AND (sender_filter IS NULL OR m.user_id = ANY(sender_filter))
+  AND (NOT attachments_only OR m.type = 'attachment')
+  AND (created_before IS NULL OR m.created_at < created_before)
+  AND (created_after IS NULL OR m.created_at >= created_after)
+  AND (
+    before_created_at IS NULL
+    OR (m.created_at, m.id) < (before_created_at, before_id)
+  )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_messages(TEXT[], UUID[], UUID[], BOOLEAN, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, TIMESTAMPTZ, UUID) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,82 @@
+BEGIN;
+
+/*
+  # Server-side message search
+
+  The local search index only covers what is cached, which after a fresh
+  login is almost nothing.
+
+  1. Extensions
+    - `unaccent`, so "cafe" finds "Café" as it does in the local index
+
+  2. Columns
+    - `messages.search_vector` - generated, stored `tsvector` of the content
+      with case and accents folded. The `simple` configuration does no
+      stemming, matching the client's tokenizer. It is for the server only:
+      functions returning message rows as JSON leave it out, and clients
+      select message columns by name
+
+  3. Indexes
+    - GIN index on `messages.search_vector`
+
+  4. Functions
+    - `search_messages(search_terms, chat_filter, result_limit, before_created_at, before_id)`
+      - Every term must match the start of a word (`term:*`)
+      - Newest first; pass the `created_at` and `id` of the last hit of the
+        previous page to get the next one
+      - Each row is the message as JSON (with the sender's profile) and its
+        `ts_rank`
+      - Runs as the caller, so RLS limits hits to the caller's chats
+*/
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- unaccent() is only STABLE; index expressions need an IMMUTABLE function
+CREATE OR REPLACE FUNCTION immutable_unaccent(input TEXT)
+RETURNS TEXT AS $$
+  SELECT public.unaccent('public.unaccent'::regdictionary, input);
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', immutable_unaccent(coalesce(content, '')))) STORED;
+
+CREATE INDEX IF NOT EXISTS messages_search_vector_idx ON messages USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION search_messages(
+  search_terms TEXT[],
+  chat_filter UUID DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  before_created_at TIMESTAMPTZ DEFAULT NULL,
+  before_id UUID DEFAULT NULL
+)
+RETURNS TABLE (message JSONB, rank REAL) AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', array_to_string(
+      ARRAY(
+        SELECT quote_literal(immutable_unaccent(lower(term))) || ':*'
+        FROM unnest(search_terms) AS term
+        WHERE term <> ''
+      ),
+      ' & '
+    )) AS q
+  )
+  SELECT
+    (to_jsonb(m) - 'search_vector') || jsonb_build_object('profiles', to_jsonb(pr)) AS message,
+    ts_rank(m.search_vector, query.q) AS rank
+  FROM messages m
+  CROSS JOIN query
+  LEFT JOIN profiles pr ON pr.id = m.user_id
+  WHERE m.search_vector @@ query.q
+  AND m.deleted_at IS NULL
+  AND (chat_filter IS NULL OR m.chat_id = chat_filter)
+  AND (
+    before_created_at IS NULL
+    OR (m.created_at, m.id) < (before_created_at, before_id)
+  )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_messages(TEXT[], UUID, INTEGER, TIMESTAMPTZ, UUID) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,96 @@
+BEGIN;
+
+/*
+  # Track message edits and deletions for incremental sync
+
+  1. Columns
+    - `messages.updated_at` - bumped on every update, used as the sync watermark
+    - `messages.deleted_at` - soft-delete tombstone so other devices learn about deletions
+
+  2. Triggers
+    - `set_messages_updated_at` - keeps `updated_at` current and scrubs the
+      content of deleted messages
+    - `guard_messages_update` - only the sender may edit or delete a message
+
+  3. Security
+    - Deleting is now an UPDATE of `deleted_at`. The baseline's "Users can
+      mark messages as read" policy lets any participant update any message
+      in the chat; a trigger now limits what such updates may change. Other
+      participants can still set `is_read`/`read_at`, but not the content
+      or the tombstone, and no one can move a message to another sender or
+      chat
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Existing rows have not changed since they were sent
+UPDATE messages SET updated_at = created_at WHERE updated_at IS NULL;
+
+ALTER TABLE messages ALTER COLUMN updated_at SET DEFAULT now();
+ALTER TABLE messages ALTER COLUMN updated_at SET NOT NULL;
+
+-- Incremental sync reads a chat's messages ordered by updated_at
+CREATE INDEX IF NOT EXISTS messages_chat_id_updated_at_idx ON messages (chat_id, updated_at);
+
+-- Generic trigger function for tables with an updated_at column
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- clock_timestamp() rather than now() so long transactions don't write
+  -- timestamps older than rows other clients have already synced past
+  NEW.updated_at = clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION touch_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = clock_timestamp();
+
+  -- Tombstones keep their identity but not their content
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.content = '';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS can't compare old and new values, so the column rules live in a trigger
+CREATE OR REPLACE FUNCTION guard_message_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.chat_id IS DISTINCT FROM OLD.chat_id THEN
+    RAISE EXCEPTION 'Messages cannot be moved to another sender or chat'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- auth.uid() is null for the service role and trusted server functions
+  IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.user_id AND (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+  ) THEN
+    RAISE EXCEPTION 'Only the sender can edit or delete a message'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_messages_update ON messages;
+CREATE TRIGGER guard_messages_update
+BEFORE UPDATE ON messages
+FOR EACH ROW
+EXECUTE FUNCTION guard_message_update();
+
+DROP TRIGGER IF EXISTS set_messages_updated_at ON messages;
+CREATE TRIGGER set_messages_updated_at
+BEFORE UPDATE ON messages
+FOR EACH ROW
+EXECUTE FUNCTION touch_message();
+
+COMMIT;